@@ -0,0 +1,74 @@
+import { createAdvancedProxy, clearProxyCache, setInitialStoreState } from './proxy';
+import { deepClone, registerCloneHandler } from './clone';
+import { monitoringConfig } from '../config';
+
+class Money {
+  #cents: number;
+
+  constructor(cents: number) {
+    this.#cents = cents;
+  }
+
+  get cents() {
+    return this.#cents;
+  }
+}
+
+describe('deepClone', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  it('preserves built-in types, undefined and BigInt', () => {
+    const source = {
+      expiresAt: new Date('2030-01-01T00:00:00Z'),
+      pattern: /scope/gi,
+      cache: new Map([['a', { hits: 1 }]]),
+      tags: new Set(['x']),
+      bytes: new Uint8Array([1, 2, 3]),
+      big: BigInt(10),
+      missing: undefined,
+    };
+
+    const copy = deepClone(source);
+
+    expect(copy).toEqual(source);
+    expect(copy.expiresAt).not.toBe(source.expiresAt);
+    expect(copy.expiresAt).toBeInstanceOf(Date);
+    expect(copy.cache.get('a')).not.toBe(source.cache.get('a'));
+    expect(copy.bytes).not.toBe(source.bytes);
+    expect('missing' in copy).toBe(true);
+  });
+
+  it('handles circular references', () => {
+    const node: any = { name: 'root' };
+    node.self = node;
+
+    const copy = deepClone(node);
+    expect(copy.self).toBe(copy);
+  });
+
+  it('uses registered handlers for custom classes', () => {
+    const unregister = registerCloneHandler(Money, money => new Money(money.cents));
+
+    const copy = deepClone({ price: new Money(250) });
+    expect(copy.price).toBeInstanceOf(Money);
+    expect(copy.price.cents).toBe(250);
+
+    unregister();
+  });
+
+  it('keeps Dates intact through $reset', () => {
+    const state = { session: { token: 'abc', expiresAt: new Date('2030-01-01T00:00:00Z') } };
+    setInitialStoreState(state);
+    clearProxyCache();
+    const $ = createAdvancedProxy(deepClone(state));
+
+    $.session.token = 'changed';
+    $.session.$reset();
+
+    expect($.session.expiresAt).toBeInstanceOf(Date);
+    expect($.session.expiresAt.getTime()).toBe(state.session.expiresAt.getTime());
+    expect($.session.raw().expiresAt.getTime()).toBe(state.session.expiresAt.getTime());
+  });
+});
@@ -0,0 +1,132 @@
+import { proxyTargetMap } from './proxy';
+
+/**
+ * Clones an instance of a registered class. `cloneValue` deep-clones nested
+ * values (sharing the same cycle tracking as the outer clone).
+ */
+export type CloneHandler<T> = (value: T, cloneValue: <V>(value: V) => V) => T;
+
+// Custom clone handlers, checked with instanceof in registration order
+const cloneHandlers = new Map<Function, CloneHandler<any>>();
+
+/**
+ * Register a clone handler for instances of a custom class.
+ *
+ * Without a handler, class instances are cloned by copying their own
+ * enumerable properties onto an object with the same prototype. Register a
+ * handler for classes that keep state elsewhere (private fields, closures,
+ * native resources).
+ *
+ * @example
+ * registerCloneHandler(Money, money => new Money(money.amount, money.currency));
+ *
+ * @returns A function that removes the handler
+ */
+export function registerCloneHandler<T extends object>(
+  constructor: abstract new (...args: any[]) => T,
+  handler: CloneHandler<T>
+): () => void {
+  cloneHandlers.set(constructor, handler);
+  return () => {
+    if (cloneHandlers.get(constructor) === handler) {
+      cloneHandlers.delete(constructor);
+    }
+  };
+}
+
+function findCloneHandler(value: object): CloneHandler<any> | undefined {
+  for (const [constructor, handler] of cloneHandlers) {
+    if (value instanceof constructor) return handler;
+  }
+  return undefined;
+}
+
+/**
+ * Deep-clone a value, unwrapping store proxies along the way.
+ *
+ * Unlike `JSON.parse(JSON.stringify(...))` this keeps `undefined` values and
+ * BigInts, preserves Dates, RegExps, Maps, Sets, ArrayBuffers and typed
+ * arrays, handles circular references, and keeps class instances' prototypes
+ * (or uses a handler registered with `registerCloneHandler()`).
+ * Functions are copied by reference.
+ */
+export function deepClone<T>(value: T, seen = new WeakMap<object, unknown>()): T {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const source = (proxyTargetMap.get(value as object) || value) as any;
+
+  if (seen.has(source)) {
+    return seen.get(source) as T;
+  }
+
+  const cloneValue = <V>(nested: V): V => deepClone(nested, seen);
+
+  const handler = findCloneHandler(source);
+  if (handler) {
+    const copy = handler(source, cloneValue);
+    seen.set(source, copy);
+    return copy;
+  }
+
+  if (Array.isArray(source)) {
+    const copy: unknown[] = [];
+    seen.set(source, copy);
+    source.forEach((item, i) => {
+      copy[i] = cloneValue(item);
+    });
+    return copy as T;
+  }
+
+  if (source instanceof Date) {
+    return new Date(source.getTime()) as T;
+  }
+
+  if (source instanceof RegExp) {
+    const copy = new RegExp(source.source, source.flags);
+    copy.lastIndex = source.lastIndex;
+    return copy as T;
+  }
+
+  if (source instanceof Map) {
+    const copy = new Map();
+    seen.set(source, copy);
+    source.forEach((item, key) => copy.set(key, cloneValue(item)));
+    return copy as T;
+  }
+
+  if (source instanceof Set) {
+    const copy = new Set();
+    seen.set(source, copy);
+    source.forEach(item => copy.add(cloneValue(item)));
+    return copy as T;
+  }
+
+  if (source instanceof ArrayBuffer) {
+    return source.slice(0) as T;
+  }
+
+  if (source instanceof DataView) {
+    return new DataView(source.buffer.slice(0), source.byteOffset, source.byteLength) as T;
+  }
+
+  if (ArrayBuffer.isView(source)) {
+    // Typed arrays: the constructor copies the elements into a new buffer
+    return new (source.constructor as any)(source) as T;
+  }
+
+  // WeakMap/WeakSet can't be enumerated — share the instance
+  if (source instanceof WeakMap || source instanceof WeakSet) {
+    return source as T;
+  }
+
+  // Plain objects and class instances: keep the prototype, copy own enumerable properties
+  const copy = Object.create(Object.getPrototypeOf(source));
+  seen.set(source, copy);
+  Object.keys(source).forEach(key => {
+    copy[key] = cloneValue(source[key]);
+  });
+
+  return copy;
+}
@@ -0,0 +1,102 @@
+import { createAdvancedProxy, clearProxyCache } from './proxy';
+import { batch, clearAllListeners, setOnStateChangeCallback } from './listeners';
+import { transaction } from './transaction';
+import { computed } from './computed';
+import { monitoringConfig } from '../config';
+
+function createStore<T extends object>(state: T) {
+  clearProxyCache();
+  return createAdvancedProxy(state);
+}
+
+describe('computed', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  beforeEach(() => {
+    clearAllListeners();
+    setOnStateChangeCallback(() => {});
+  });
+
+  it('evaluates lazily and caches the result', () => {
+    const $ = createStore({ todos: [{ done: false }, { done: true }] });
+    const getter = jest.fn(() => $.todos.filter(todo => !todo.done).length);
+    const remaining = computed(getter);
+
+    expect(getter).not.toHaveBeenCalled();
+    expect(remaining.value).toBe(1);
+    expect(remaining.value).toBe(1);
+    expect(getter).toHaveBeenCalledTimes(1);
+    remaining.dispose();
+  });
+
+  it('recomputes after a dependency changes', () => {
+    const $ = createStore({ price: 10, quantity: 2 });
+    const total = computed(() => $.price * $.quantity);
+
+    expect(total.value).toBe(20);
+    $.quantity = 3;
+    expect(total.value).toBe(30);
+    total.dispose();
+  });
+
+  it('does not recompute after unrelated writes', () => {
+    const $ = createStore({ price: 10, label: 'Cart' });
+    const getter = jest.fn(() => $.price * 2);
+    const double = computed(getter);
+
+    expect(double.value).toBe(20);
+    $.label = 'Basket';
+    expect(double.value).toBe(20);
+    expect(getter).toHaveBeenCalledTimes(1);
+    double.dispose();
+  });
+
+  it('returns fresh values inside batch() and transaction()', () => {
+    const $ = createStore({ count: 1 });
+    const double = computed(() => $.count * 2);
+    expect(double.value).toBe(2);
+
+    batch(() => {
+      $.count = 2;
+      expect(double.value).toBe(4);
+    });
+    transaction(() => {
+      $.count = 3;
+      expect(double.value).toBe(6);
+    });
+
+    expect(double.value).toBe(6);
+    double.dispose();
+  });
+
+  it('chains computed values', () => {
+    const $ = createStore({ items: [1, 2, 3] });
+    const doubled = computed(() => $.items.map(item => item * 2));
+    const sum = computed(() => doubled.value.reduce((total, item) => total + item, 0));
+
+    expect(sum.value).toBe(12);
+    $.items.push(4);
+    expect(sum.value).toBe(20);
+    sum.dispose();
+    doubled.dispose();
+  });
+
+  it('unsubscribes on dispose and recomputes on the next read', () => {
+    const $ = createStore({ count: 1 });
+    const getter = jest.fn(() => $.count);
+    const value = computed(getter);
+
+    expect(value.value).toBe(1);
+    expect(value.paths).toEqual(['count']);
+
+    value.dispose();
+    expect(value.paths).toEqual([]);
+
+    $.count = 2;
+    expect(value.value).toBe(2);
+    expect(getter).toHaveBeenCalledTimes(2);
+    value.dispose();
+  });
+});
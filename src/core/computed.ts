@@ -0,0 +1,78 @@
+import { trackDependencies, addTrackedPaths, subscribeToDependencies, getDependenciesKey, getRevisionKey } from './tracking';
+import { isBatching } from './listeners';
+import type { Dependency } from './tracking';
+import type { Computed } from '../types';
+
+/**
+ * Create a cached value derived from the store.
+ *
+ * The getter runs with dependency tracking (like a `useScope` selector) to learn
+ * which paths it reads. The result is cached and only recomputed after one of
+ * those paths changes. Reading `.value` inside a selector, another computed or a
+ * watcher tracks the underlying paths, so computed values can be chained.
+ *
+ * Evaluation is lazy: nothing runs until `.value` is first read.
+ *
+ * @example
+ * const remaining = computed(() => $.todos.filter(t => !t.completed));
+ * const remainingCount = computed(() => remaining.value.length);
+ *
+ * // In a component — re-renders only when the todos change
+ * const count = useScope(() => remainingCount.value);
+ *
+ * @param getter - Function deriving a value from the store
+ * @returns A computed value; call `dispose()` when it is no longer needed
+ */
+export function computed<T>(getter: () => T): Computed<T> {
+  let cachedValue: T;
+  let isDirty = true;
+  let dependencies: Dependency[] = [];
+  let evaluatedRevision = '';
+  let unsubscribeAll = () => {};
+
+  const invalidate = () => {
+    isDirty = true;
+  };
+
+  const evaluate = () => {
+    const { value, dependencies: nextDependencies } = trackDependencies(getter);
+    cachedValue = value;
+    isDirty = false;
+    evaluatedRevision = getRevisionKey(nextDependencies);
+
+    // Only re-subscribe when the dependency set actually changed
+    if (getDependenciesKey(nextDependencies) !== getDependenciesKey(dependencies)) {
+      unsubscribeAll();
+      dependencies = nextDependencies;
+      // Priority listeners run first, so readers notified in the same
+      // cycle never observe a stale cached value
+      unsubscribeAll = subscribeToDependencies(dependencies, invalidate, { priority: true });
+    }
+  };
+
+  return {
+    get value() {
+      // Inside a batch, invalidation is deferred until the batch ends, so the
+      // store revision tells whether a write may have made the cache stale
+      if (isDirty || (isBatching() && getRevisionKey(dependencies) !== evaluatedRevision)) {
+        evaluate();
+      }
+
+      // Let the enclosing selector (if any) depend on what this value depends on
+      addTrackedPaths(dependencies);
+
+      return cachedValue;
+    },
+
+    get paths() {
+      return dependencies.map(dependency => dependency.path);
+    },
+
+    dispose() {
+      unsubscribeAll();
+      unsubscribeAll = () => {};
+      dependencies = [];
+      isDirty = true;
+    },
+  };
+}
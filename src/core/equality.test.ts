@@ -0,0 +1,24 @@
+import { strictEqual, shallowEqual, deepEqual } from './equality';
+
+describe('equality comparators', () => {
+  it('compares one level deep with shallowEqual', () => {
+    const item = { id: 1 };
+
+    expect(shallowEqual([item, 2], [item, 2])).toBe(true);
+    expect(shallowEqual({ a: item }, { a: item })).toBe(true);
+    expect(shallowEqual({ a: { id: 1 } }, { a: { id: 1 } })).toBe(false);
+    expect(shallowEqual(new Map([['a', item]]), new Map([['a', item]]))).toBe(true);
+    expect(shallowEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+    expect(shallowEqual([1], { 0: 1 })).toBe(false);
+  });
+
+  it('distinguishes identity, shallow and deep equality', () => {
+    const a = { todos: [{ text: 'a' }] };
+    const b = { todos: [{ text: 'a' }] };
+
+    expect(strictEqual(a, b)).toBe(false);
+    expect(strictEqual(NaN, NaN)).toBe(true);
+    expect(shallowEqual(a, b)).toBe(false);
+    expect(deepEqual(a, b)).toBe(true);
+  });
+});
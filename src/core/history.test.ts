@@ -0,0 +1,170 @@
+import { createAdvancedProxy, clearProxyCache } from './proxy';
+import { batch, clearAllListeners, setOnStateChangeCallback } from './listeners';
+import { createHistory } from './history';
+import { monitoringConfig } from '../config';
+
+function createStore<T extends object>(state: T) {
+  clearProxyCache();
+  return createAdvancedProxy(state);
+}
+
+describe('createHistory', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  beforeEach(() => {
+    clearAllListeners();
+    setOnStateChangeCallback(() => {});
+  });
+
+  it('undoes and redoes property writes', () => {
+    const $ = createStore({ document: { title: 'Untitled' } });
+    const history = createHistory($);
+
+    expect(history.canUndo).toBe(false);
+    $.document.title = 'Draft';
+    expect(history.canUndo).toBe(true);
+
+    expect(history.undo()).toBe(true);
+    expect($.document.title).toBe('Untitled');
+    expect(history.canUndo).toBe(false);
+    expect(history.canRedo).toBe(true);
+
+    expect(history.redo()).toBe(true);
+    expect($.document.title).toBe('Draft');
+    expect(history.canRedo).toBe(false);
+    expect(history.redo()).toBe(false);
+    history.dispose();
+  });
+
+  it('tells added keys apart from keys that held undefined', () => {
+    const $ = createStore<{ draft: Record<string, string | undefined> }>({ draft: { note: undefined } });
+    const history = createHistory($);
+
+    $.draft.note = 'Hello';
+    $.draft.tag = 'work';
+
+    history.undo();
+    expect('tag' in $.draft).toBe(false);
+    history.undo();
+    expect('note' in $.draft).toBe(true);
+    expect($.draft.note).toBeUndefined();
+    history.dispose();
+  });
+
+  it('records a batch as one step and clears the redo stack on new changes', () => {
+    const $ = createStore({ a: 1, b: 1 });
+    const history = createHistory($);
+
+    batch(() => {
+      $.a = 2;
+      $.b = 2;
+    });
+    history.undo();
+    expect({ a: $.a, b: $.b }).toEqual({ a: 1, b: 1 });
+
+    $.a = 3;
+    expect(history.canRedo).toBe(false);
+    history.dispose();
+  });
+
+  it('keeps at most `limit` steps and only records the given paths', () => {
+    const $ = createStore({ count: 0, ui: { open: false } });
+    const history = createHistory($, { paths: ['count'], limit: 2 });
+
+    $.count = 1;
+    $.count = 2;
+    $.count = 3;
+    $.ui.open = true;
+
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(false);
+    expect($.count).toBe(1);
+    expect($.ui.open).toBe(true);
+    history.dispose();
+  });
+
+  it('undoes and redoes array mutators', () => {
+    const $ = createStore({ items: ['a', 'b', 'c'] });
+    const history = createHistory($);
+
+    $.items.push('d');
+    $.items.splice(1, 1, 'x', 'y');
+    expect([...$.items]).toEqual(['a', 'x', 'y', 'c', 'd']);
+
+    history.undo();
+    expect([...$.items]).toEqual(['a', 'b', 'c', 'd']);
+    history.undo();
+    expect([...$.items]).toEqual(['a', 'b', 'c']);
+
+    history.redo();
+    history.redo();
+    expect([...$.items]).toEqual(['a', 'x', 'y', 'c', 'd']);
+    history.dispose();
+  });
+
+  it('undoes and redoes Map writes', () => {
+    const $ = createStore({ prices: new Map<string, number>([['apple', 1]]) });
+    const history = createHistory($);
+
+    $.prices.set('apple', 2);
+    $.prices.set('pear', 3);
+    $.prices.delete('apple');
+
+    history.undo();
+    expect($.prices.get('apple')).toBe(2);
+    history.undo();
+    expect($.prices.has('pear')).toBe(false);
+    history.undo();
+    expect($.prices.get('apple')).toBe(1);
+
+    history.redo();
+    history.redo();
+    history.redo();
+    expect($.prices.has('apple')).toBe(false);
+    expect($.prices.get('pear')).toBe(3);
+    history.dispose();
+  });
+
+  it('undoes and redoes Set writes with object members', () => {
+    const $ = createStore({ selection: new Set<{ id: number }>() });
+    const history = createHistory($);
+
+    const first = { id: 1 };
+    $.selection.add(first);
+    $.selection.add({ id: 2 });
+    $.selection.delete(first);
+
+    history.undo();
+    expect([...$.selection]).toEqual([{ id: 2 }, { id: 1 }]);
+    history.undo();
+    expect([...$.selection]).toEqual([{ id: 1 }]);
+    history.undo();
+    expect($.selection.size).toBe(0);
+
+    history.redo();
+    history.redo();
+    history.redo();
+    expect([...$.selection]).toEqual([{ id: 2 }]);
+    history.dispose();
+  });
+
+  it('notifies subscribers and stops recording after dispose', () => {
+    const $ = createStore({ count: 0 });
+    const history = createHistory($);
+    const listener = jest.fn();
+    history.subscribe(listener);
+
+    $.count = 1;
+    history.undo();
+    history.clear();
+    expect(listener).toHaveBeenCalledTimes(3);
+
+    history.dispose();
+    $.count = 2;
+    expect(history.canUndo).toBe(false);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,210 @@
+import { batch, onChangeSet, captureChanges } from './listeners';
+import { deepClone } from './clone';
+import { deepEqual } from './equality';
+import { getProxyContext } from './proxy';
+import { resolvePath, matchesPathPrefix } from './paths';
+import type { ChangeRecord, History, HistoryOptions } from '../types';
+
+/**
+ * Plain, mutable copy of a recorded value so history entries are never
+ * aliased into the live store.
+ */
+function cloneRecordedValue<T>(value: T): T {
+  return deepClone(value);
+}
+
+/**
+ * Find the live member of a Set matching a recorded copy. Primitives match
+ * themselves; objects are matched by deep equality.
+ */
+function findSetMember(set: Set<unknown>, member: unknown): unknown {
+  if (member === null || typeof member !== 'object' || set.has(member)) return member;
+
+  for (const candidate of set) {
+    if (deepEqual(candidate, member)) return candidate;
+  }
+  return member;
+}
+
+/**
+ * Apply a single change record to the store, forwards (redo) or backwards (undo).
+ * Writes go through the proxy so listeners and persistence fire as usual.
+ */
+function applyChange(root: any, change: ChangeRecord, direction: 'undo' | 'redo'): void {
+  const { path, op } = change;
+  const value = direction === 'undo' ? change.oldValue : change.newValue;
+
+  if (op === 'reset') {
+    const target = resolvePath(root, path);
+    if (target && typeof target.$set === 'function') {
+      target.$set(cloneRecordedValue(value));
+    }
+    return;
+  }
+
+  const parent = resolvePath(root, path.slice(0, -1));
+  const key = path[path.length - 1];
+
+  if (parent === null || parent === undefined || typeof parent !== 'object') {
+    console.warn(`⚠️ History: cannot apply change, path "${path.join('.')}" no longer exists`);
+    return;
+  }
+
+  if (op === 'splice' || op === 'push') {
+    const removed = (direction === 'undo' ? change.newValue : change.oldValue) as unknown[];
+    const inserted = value as unknown[];
+    parent.splice(Number(key), removed.length, ...cloneRecordedValue(inserted));
+    return;
+  }
+
+  // set / delete: undoing a set that added the key removes it again
+  const shouldDelete = direction === 'undo'
+    ? op === 'set' && change.hadKey === false
+    : op === 'delete';
+
+  if (parent instanceof Set) {
+    // Set records carry a copy of the member rather than a key
+    const member = op === 'set' ? change.newValue : change.oldValue;
+    if (shouldDelete) {
+      parent.delete(findSetMember(parent, member));
+    } else {
+      parent.add(cloneRecordedValue(member));
+    }
+  } else if (parent instanceof Map) {
+    if (shouldDelete) {
+      parent.delete(key);
+    } else {
+      parent.set(key, cloneRecordedValue(value));
+    }
+  } else if (shouldDelete) {
+    delete parent[key];
+  } else {
+    parent[key] = cloneRecordedValue(value);
+  }
+}
+
+/**
+ * Create an undo/redo history for a store.
+ *
+ * The history records changes made through the store proxy (direct assignment,
+ * `$merge`, `$set`, `$delete`, `$reset`, `push`, `splice`...) as inverse-able
+ * steps. Every batch — and every change outside a batch — becomes one step;
+ * use `coalesceWindow` to also merge changes that happen in quick succession
+ * (e.g. keystrokes) into a single step.
+ *
+ * @example
+ * const history = createHistory($, { paths: ['document'], limit: 100, coalesceWindow: 500 });
+ *
+ * $.document.title = 'Draft';
+ * history.undo(); // title restored
+ * history.redo(); // title is 'Draft' again
+ *
+ * @param store - The store proxy (usually `$`) that changes are recorded from and applied to
+ * @param options - Which paths to record, how many steps to keep, and the coalescing window
+ * @returns A history controller; call `dispose()` to stop recording
+ */
+export function createHistory<T extends object>(store: T, options: HistoryOptions = {}): History {
+  const { paths = [], limit = 100, coalesceWindow = 0 } = options;
+
+  let undoStack: ChangeRecord[][] = [];
+  let redoStack: ChangeRecord[][] = [];
+  let lastRecordedAt = 0;
+
+  // Records produced by undo()/redo() themselves — never recorded as new steps
+  const appliedChanges = new WeakSet<ChangeRecord>();
+  const listeners = new Set<() => void>();
+
+  const emit = () => {
+    listeners.forEach(listener => listener());
+  };
+
+  const isRecordedPath = (change: ChangeRecord) =>
+    paths.length === 0 || matchesPathPrefix(change.path.join('.'), paths);
+
+  // Record from the store the proxy belongs to (see createStore())
+  const stopRecording = onChangeSet(changes => {
+    const relevant = changes.filter(change => !appliedChanges.has(change) && isRecordedPath(change));
+    if (relevant.length === 0) return;
+
+    const timestamp = relevant[relevant.length - 1].timestamp;
+    const shouldCoalesce = coalesceWindow > 0 &&
+      undoStack.length > 0 &&
+      timestamp - lastRecordedAt <= coalesceWindow;
+
+    if (shouldCoalesce) {
+      undoStack[undoStack.length - 1].push(...relevant);
+    } else {
+      undoStack.push(relevant);
+      if (undoStack.length > limit) {
+        undoStack.splice(0, undoStack.length - limit);
+      }
+    }
+
+    lastRecordedAt = timestamp;
+    redoStack = [];
+    emit();
+  }, getProxyContext(store).listeners);
+
+  const applyStep = (step: ChangeRecord[], direction: 'undo' | 'redo') => {
+    // Mark the records produced here before the batch flushes them to the recorder
+    batch(() => {
+      const ordered = direction === 'undo' ? [...step].reverse() : step;
+      const { changes } = captureChanges(() => {
+        ordered.forEach(change => applyChange(store, change, direction));
+      });
+      changes.forEach(change => appliedChanges.add(change));
+    });
+  };
+
+  return {
+    undo() {
+      const step = undoStack.pop();
+      if (!step) return false;
+
+      applyStep(step, 'undo');
+      redoStack.push(step);
+      // Never coalesce the next change into a step that was just undone
+      lastRecordedAt = 0;
+      emit();
+      return true;
+    },
+
+    redo() {
+      const step = redoStack.pop();
+      if (!step) return false;
+
+      applyStep(step, 'redo');
+      undoStack.push(step);
+      lastRecordedAt = 0;
+      emit();
+      return true;
+    },
+
+    get canUndo() {
+      return undoStack.length > 0;
+    },
+
+    get canRedo() {
+      return redoStack.length > 0;
+    },
+
+    clear() {
+      undoStack = [];
+      redoStack = [];
+      lastRecordedAt = 0;
+      emit();
+    },
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    dispose() {
+      stopRecording();
+      listeners.clear();
+    },
+  };
+}
@@ -0,0 +1,159 @@
+import { createAdvancedProxy, clearProxyCache } from './proxy';
+import { subscribe, batch, clearAllListeners, setOnStateChangeCallback, onChange, defaultRegistry } from './listeners';
+import { transaction } from './transaction';
+import { monitoringConfig } from '../config';
+import type { ChangeRecord } from '../types';
+
+function createStore<T extends object>(state: T) {
+  clearProxyCache();
+  return createAdvancedProxy(state);
+}
+
+describe('batch', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  beforeEach(() => {
+    clearAllListeners();
+    setOnStateChangeCallback(() => {});
+  });
+
+  it('fires each subscriber once for a batch of writes', () => {
+    const $ = createStore({ user: { name: 'Alice', age: 30 } });
+    const listener = jest.fn();
+    subscribe('user', listener);
+
+    batch(() => {
+      $.user.name = 'Bob';
+      $.user.age = 31;
+      $.user.name = 'Carol';
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect($.user.name).toBe('Carol');
+  });
+
+  it('defers notifications until the outermost batch ends', () => {
+    const $ = createStore({ count: 0 });
+    const listener = jest.fn();
+    subscribe('count', listener);
+
+    batch(() => {
+      batch(() => {
+        $.count = 1;
+      });
+      expect(listener).not.toHaveBeenCalled();
+      $.count = 2;
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('de-duplicates paths passed to the state change callback', () => {
+    const $ = createStore({ user: { name: 'Alice', age: 30 } });
+    const changed: string[] = [];
+    setOnStateChangeCallback(path => changed.push(path.join('.')));
+
+    batch(() => {
+      $.user.name = 'Bob';
+      $.user.name = 'Carol';
+      $.user.age = 31;
+    });
+
+    expect(changed).toEqual(['user.name', 'user.age']);
+  });
+
+  it('notifies once for $merge and splice', () => {
+    const $ = createStore({
+      user: { name: 'Alice', age: 30, role: 'user' },
+      todos: ['a', 'b', 'c', 'd'],
+    });
+    const userListener = jest.fn();
+    const todosListener = jest.fn();
+    subscribe('user', userListener);
+    subscribe('todos', todosListener);
+
+    $.user.$merge({ name: 'Bob', age: 31, role: 'admin' });
+    $.todos.splice(1, 2);
+
+    expect(userListener).toHaveBeenCalledTimes(1);
+    expect(todosListener).toHaveBeenCalledTimes(1);
+    expect($.todos.raw()).toEqual(['a', 'd']);
+  });
+
+  it('is available on the root proxy', () => {
+    const $ = createStore({ a: 1, b: 2 });
+    const listener = jest.fn();
+    subscribe('', listener);
+
+    const result = ($ as any).batch(() => {
+      $.a = 10;
+      $.b = 20;
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('onChange', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  beforeEach(() => {
+    clearAllListeners();
+    defaultRegistry.changeListeners.clear();
+    setOnStateChangeCallback(() => {});
+  });
+
+  it('delivers a record with old and new values for each change', () => {
+    const $ = createStore({ user: { name: 'Alice' } as Record<string, any> });
+    const records: ChangeRecord[] = [];
+    const stop = onChange(change => records.push(change));
+
+    $.user.name = 'Bob';
+    delete $.user.name;
+    stop();
+    $.user.name = 'Carol';
+
+    expect(records.map(({ op, path, oldValue, newValue }) => ({ op, path, oldValue, newValue }))).toEqual([
+      { op: 'set', path: ['user', 'name'], oldValue: 'Alice', newValue: 'Bob' },
+      { op: 'delete', path: ['user', 'name'], oldValue: 'Bob', newValue: undefined },
+    ]);
+  });
+
+  it('delivers batched records when the batch ends', () => {
+    const $ = createStore({ a: 1, b: 1 });
+    const records: ChangeRecord[] = [];
+    onChange(change => records.push(change));
+
+    batch(() => {
+      $.a = 2;
+      $.b = 2;
+      expect(records).toEqual([]);
+    });
+
+    expect(records.map(change => change.path.join('.'))).toEqual(['a', 'b']);
+  });
+
+  it('never delivers records reverted by a nested rollback', () => {
+    const $ = createStore({ a: 1, b: 1 });
+    const records: ChangeRecord[] = [];
+    onChange(change => records.push(change));
+
+    transaction(() => {
+      $.a = 2;
+      try {
+        transaction(() => {
+          $.b = 2;
+          throw new Error('inner');
+        });
+      } catch { /* ignore */ }
+    });
+
+    expect(records.map(change => change.path.join('.'))).toEqual(['a']);
+  });
+});
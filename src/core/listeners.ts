@@ -1,63 +1,216 @@
-import type { PathListeners, Listener, MonitoringStats } from '../types';
+import type { PathListeners, Listener, MonitoringStats, ChangeRecord, ChangeListener } from '../types';
 import { monitoringConfig } from '../config';
 
-// Path-specific listeners
-export const pathListeners: PathListeners = new Map();
+/**
+ * Listener state owned by a single store instance. Every store created with
+ * `createStore()` gets its own registry; the default `$` store uses `defaultRegistry`.
+ */
+export interface ListenerRegistry {
+  /** Unique id, used to key tracked dependencies and batched notifications */
+  id: number;
+  /** Path-specific listeners */
+  pathListeners: PathListeners;
+  /** Change record listeners registered via onChange() */
+  changeListeners: Set<ChangeListener>;
+  /** Listeners receiving each delivered group of changes (one per batch) */
+  changeSetListeners: Set<(changes: ChangeRecord[]) => void>;
+  /**
+   * Post-notification callback — used by the persistence layer to react to state changes
+   * without creating a circular dependency (listeners -> persistence -> config -> listeners).
+   */
+  onStateChange: ((path: string[]) => void) | null;
+  /** Statistics for monitoring */
+  stats: MonitoringStats;
+  /** Incremented on every change to the store, so readers can detect missed notifications */
+  revision: number;
+}
 
-// Post-notification callback — used by the persistence layer to react to state changes
-// without creating a circular dependency (listeners -> persistence -> config -> listeners).
-let onStateChangeCallback: ((path: string[]) => void) | null = null;
+let nextRegistryId = 0;
+
+function createMonitoringStats(): MonitoringStats {
+  return {
+    proxyCount: 0,
+    totalSubscriptionsCreated: 0,
+    totalSubscriptionsRemoved: 0,
+    activeSubscriptions: 0,
+    pathSubscriptionCounts: {},
+    timings: {
+      lastNotifyTime: 0,
+      lastPersistTime: 0,
+      averageNotifyTime: 0,
+      averagePersistTime: 0,
+      notifyTimeTotal: 0,
+      persistTimeTotal: 0,
+      notifyCount: 0,
+      persistCount: 0,
+    },
+    leakDetection: {
+      lastCheckTime: 0,
+      totalChecks: 0,
+      leaksDetected: 0,
+      renderCyclesSinceCheck: 0,
+      isLeakDetectionRunning: false,
+      leakDetectionTimer: null,
+    }
+  };
+}
+
+/**
+ * Create an empty listener registry for a new store instance
+ */
+export function createListenerRegistry(): ListenerRegistry {
+  return {
+    id: nextRegistryId++,
+    pathListeners: new Map(),
+    changeListeners: new Set(),
+    changeSetListeners: new Set(),
+    onStateChange: null,
+    stats: createMonitoringStats(),
+    revision: 0,
+  };
+}
+
+// Registry of the default store
+export const defaultRegistry = createListenerRegistry();
+
+// Path-specific listeners of the default store
+export const pathListeners: PathListeners = defaultRegistry.pathListeners;
+
+// Statistics for monitoring (default store)
+export const monitoringStats: MonitoringStats = defaultRegistry.stats;
 
 /**
  * Register a callback that fires after every notifyListeners call.
  * Used internally by the persistence system to batch-persist changes.
  */
-export function setOnStateChangeCallback(callback: (path: string[]) => void): void {
-  onStateChangeCallback = callback;
-}
-
-// Statistics for monitoring
-export let monitoringStats: MonitoringStats = {
-  proxyCount: 0,
-  totalSubscriptionsCreated: 0,
-  totalSubscriptionsRemoved: 0,
-  activeSubscriptions: 0,
-  pathSubscriptionCounts: {},
-  timings: {
-    lastNotifyTime: 0,
-    lastPersistTime: 0,
-    averageNotifyTime: 0,
-    averagePersistTime: 0,
-    notifyTimeTotal: 0,
-    persistTimeTotal: 0,
-    notifyCount: 0,
-    persistCount: 0,
-  },
-  leakDetection: {
-    lastCheckTime: 0,
-    totalChecks: 0,
-    leaksDetected: 0,
-    renderCyclesSinceCheck: 0,
-    isLeakDetectionRunning: false,
-    leakDetectionTimer: null,
-  }
-};
+export function setOnStateChangeCallback(
+  callback: (path: string[]) => void,
+  registry: ListenerRegistry = defaultRegistry
+): void {
+  registry.onStateChange = callback;
+}
+
+// Active captureChanges() collectors — receive records as they are created,
+// before batching defers delivery
+const changeCaptures: ChangeRecord[][] = [];
+
+/**
+ * Listen to every change made through a store proxy.
+ *
+ * Each change record describes what happened at which path, including the old
+ * and new values. Changes made inside a batch or transaction are delivered when
+ * the outermost one ends. Changes reverted by a rolled-back transaction are
+ * never delivered, even when it is nested in a batch or transaction that commits.
+ *
+ * @example
+ * const stop = onChange(change => {
+ *   auditLog.push(`${change.op} ${change.path.join('.')}`);
+ * });
+ *
+ * @returns A function that removes the listener
+ */
+export function onChange(listener: ChangeListener, registry: ListenerRegistry = defaultRegistry): () => void {
+  registry.changeListeners.add(listener);
+  return () => {
+    registry.changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Listen to changes grouped by notification cycle: every batch (or single
+ * unbatched mutation) is delivered as one array. Used by the history module
+ * to turn a batch into a single undo step.
+ */
+export function onChangeSet(
+  listener: (changes: ChangeRecord[]) => void,
+  registry: ListenerRegistry = defaultRegistry
+): () => void {
+  registry.changeSetListeners.add(listener);
+  return () => {
+    registry.changeSetListeners.delete(listener);
+  };
+}
+
+/**
+ * Run a function and collect the change records created while it runs.
+ * Records are captured as they happen, even inside an enclosing batch.
+ */
+export function captureChanges<T>(fn: () => T): { value: T; changes: ChangeRecord[] } {
+  const changes: ChangeRecord[] = [];
+  changeCaptures.push(changes);
+
+  try {
+    const value = fn();
+    return { value, changes };
+  } finally {
+    changeCaptures.splice(changeCaptures.lastIndexOf(changes), 1);
+  }
+}
+
+/**
+ * Check if anyone is listening to change records.
+ * Lets the proxy skip building records (and cloning values) when nobody is.
+ */
+export function hasChangeListeners(registry: ListenerRegistry = defaultRegistry): boolean {
+  return registry.changeListeners.size > 0 ||
+    registry.changeSetListeners.size > 0 ||
+    changeCaptures.length > 0;
+}
+
+function deliverChanges(registry: ListenerRegistry, changes: ChangeRecord[]): void {
+  if (changes.length === 0) return;
+
+  registry.changeSetListeners.forEach(listener => {
+    try {
+      listener(changes);
+    } catch (error) {
+      console.error('Error in change listener:', error);
+    }
+  });
+
+  changes.forEach(change => {
+    registry.changeListeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('Error in change listener:', error);
+      }
+    });
+  });
+}
+
+// Listeners that must run before regular ones in a notification cycle
+// (e.g. computed values invalidating their cache before selectors re-read them)
+const priorityListeners = new WeakSet<Listener>();
 
 /**
  * Subscribe to changes on a specific path
+ *
+ * @param options.priority - Run this listener before non-priority listeners
  */
-export function subscribe(path: string, listener: Listener): () => void {
+export function subscribe(
+  path: string,
+  listener: Listener,
+  options: { priority?: boolean } = {},
+  registry: ListenerRegistry = defaultRegistry
+): () => void {
+  const { pathListeners } = registry;
+
+  if (options.priority) {
+    priorityListeners.add(listener);
+  }
+
   if (!pathListeners.has(path)) {
     pathListeners.set(path, new Set());
   }
 
   pathListeners.get(path)?.add(listener);
-  logSubscriptionAdded(path);
+  logSubscriptionAdded(registry, path);
 
   // Return unsubscribe function
   return () => {
     pathListeners.get(path)?.delete(listener);
-    logSubscriptionRemoved(path);
+    logSubscriptionRemoved(registry, path);
 
     // Clean up empty listener sets
     if (pathListeners.get(path)?.size === 0) {
@@ -69,14 +222,134 @@ export function subscribe(path: string, listener: Listener): () => void {
   };
 }
 
+// Batch state — while batchDepth > 0, notifications are queued (keyed by
+// registry and dotted path so repeated writes to the same path collapse into
+// one entry) and delivered once the outermost batch ends. Batches span stores.
+let batchDepth = 0;
+const pendingNotifications = new Map<string, {
+  registry: ListenerRegistry;
+  path: string[];
+  includeChildren: boolean;
+}>();
+const pendingChanges: Array<{ registry: ListenerRegistry; change: ChangeRecord }> = [];
+
+/**
+ * Run a function as a single batch of mutations.
+ *
+ * All notifications triggered inside the callback are deferred until the
+ * outermost batch ends. Notified paths are de-duplicated and every subscriber
+ * fires at most once, no matter how many of its paths changed.
+ *
+ * @example
+ * batch(() => {
+ *   $.user.name = 'Jane';
+ *   $.user.age = 31;
+ *   $.todos.push(todo);
+ * }); // Subscribers of user and todos are notified once each
+ */
+export function batch<T>(fn: () => T): T {
+  beginBatch();
+  try {
+    return fn();
+  } finally {
+    endBatch();
+  }
+}
+
+/**
+ * Position in the pending notification queues, taken when a batch opens
+ */
+export interface PendingMark {
+  notifications: number;
+  changes: number;
+}
+
+/**
+ * Open a batch. Every call must be paired with endBatch().
+ *
+ * @returns The current end of the pending queues, so a rolled-back
+ *          transaction can drop exactly what was queued after it opened
+ */
+export function beginBatch(): PendingMark {
+  batchDepth++;
+  return { notifications: pendingNotifications.size, changes: pendingChanges.length };
+}
+
+/**
+ * Close a batch. When the outermost batch closes, pending notifications are
+ * flushed. With `discardSince` (used by transaction rollback), everything
+ * queued after that mark is dropped first, at any nesting depth — so an inner
+ * rollback never delivers notifications, change records or persistence writes
+ * for its reverted writes when an enclosing batch flushes.
+ */
+export function endBatch(discardSince?: PendingMark): void {
+  if (batchDepth === 0) return;
+
+  if (discardSince) {
+    discardPendingSince(discardSince);
+  }
+
+  batchDepth--;
+  if (batchDepth > 0) return;
+
+  flushPendingNotifications();
+}
+
+function discardPendingSince(mark: PendingMark): void {
+  // Map iteration follows insertion order, so entries past the mark were
+  // queued after it. Paths already pending before the mark stay pending.
+  let index = 0;
+  Array.from(pendingNotifications.keys()).forEach(key => {
+    if (index++ >= mark.notifications) {
+      pendingNotifications.delete(key);
+    }
+  });
+  pendingChanges.length = Math.min(pendingChanges.length, mark.changes);
+}
+
+/**
+ * Check if a batch is currently open
+ */
+export function isBatching(): boolean {
+  return batchDepth > 0;
+}
+
 /**
  * Notify all listeners for a given path and its parents/children
+ *
+ * @param change - Optional record describing the change, forwarded to onChange() listeners
+ * @param includeChildren - Also notify listeners of child paths. Array mutators pass
+ *                          false and notify the affected indices themselves.
+ * @param registry - The listener registry of the store that changed
  */
-export function notifyListeners(path: string[]): void {
-  if (typeof window === 'undefined') return;
+export function notifyListeners(
+  path: string[],
+  change?: ChangeRecord,
+  includeChildren: boolean = true,
+  registry: ListenerRegistry = defaultRegistry
+): void {
+  registry.revision++;
+
+  if (change) {
+    changeCaptures.forEach(capture => capture.push(change));
+  }
 
   const pathKey = path.join('.');
 
+  if (batchDepth > 0) {
+    const pendingKey = `${registry.id}:${pathKey}`;
+    const pending = pendingNotifications.get(pendingKey);
+    pendingNotifications.set(pendingKey, {
+      registry,
+      path,
+      includeChildren: includeChildren || (pending !== undefined && pending.includeChildren),
+    });
+    if (change) {
+      pendingChanges.push({ registry, change });
+    }
+    return;
+  }
+
   let startTime = 0;
   if (monitoringConfig.enabled && monitoringConfig.logStateChanges) {
     startTime = logTimestamp(`⚡️ Notifying path: ${pathKey}`);
@@ -84,16 +357,115 @@ export function notifyListeners(path: string[]): void {
 
   // Track render cycle for leak detection
   if (monitoringConfig.enabled && monitoringConfig.autoLeakDetection) {
-    monitoringStats.leakDetection.renderCyclesSinceCheck++;
+    registry.stats.leakDetection.renderCyclesSinceCheck++;
+  }
+
+  const listeners = new Set<Listener>();
+  collectListeners(registry.pathListeners, path, listeners, includeChildren);
+  runListeners(listeners);
+
+  if (monitoringConfig.enabled && monitoringConfig.logStateChanges && startTime > 0) {
+    const duration = logTimingEnd('Notification cycle', startTime);
+    updateTimingStat(registry.stats, 'notify', duration);
+  }
+
+  if (change) {
+    deliverChanges(registry, [change]);
+  }
+
+  // Fire the post-notification callback (persistence, etc.)
+  if (registry.onStateChange) {
+    registry.onStateChange(path);
+  }
+}
+
+/**
+ * Deliver all notifications queued during a batch in a single cycle.
+ */
+function flushPendingNotifications(): void {
+  if (pendingNotifications.size === 0) return;
+
+  const pending = Array.from(pendingNotifications.values());
+  const changes = pendingChanges.splice(0, pendingChanges.length);
+  pendingNotifications.clear();
+
+  let startTime = 0;
+  if (monitoringConfig.enabled && monitoringConfig.logStateChanges) {
+    startTime = logTimestamp(`⚡️ Notifying ${pending.length} batched paths`);
   }
 
-  // Notify exact path listeners
+  const registries = new Set<ListenerRegistry>();
+  pending.forEach(entry => registries.add(entry.registry));
+
+  if (monitoringConfig.enabled && monitoringConfig.autoLeakDetection) {
+    registries.forEach(registry => {
+      registry.stats.leakDetection.renderCyclesSinceCheck++;
+    });
+  }
+
+  // Collect every affected listener first so each fires exactly once
+  const listeners = new Set<Listener>();
+  pending.forEach(entry =>
+    collectListeners(entry.registry.pathListeners, entry.path, listeners, entry.includeChildren)
+  );
+  runListeners(listeners);
+
+  if (monitoringConfig.enabled && monitoringConfig.logStateChanges && startTime > 0) {
+    const duration = logTimingEnd('Batched notification cycle', startTime);
+    registries.forEach(registry => updateTimingStat(registry.stats, 'notify', duration));
+  }
+
+  // Each store receives its own changes as one group
+  registries.forEach(registry => {
+    deliverChanges(
+      registry,
+      changes.filter(entry => entry.registry === registry).map(entry => entry.change)
+    );
+  });
+
+  pending.forEach(({ registry, path }) => {
+    if (registry.onStateChange) {
+      registry.onStateChange(path);
+    }
+  });
+}
+
+/**
+ * Run collected listeners, priority listeners first.
+ */
+function runListeners(listeners: Set<Listener>): void {
+  const regular: Listener[] = [];
+
+  listeners.forEach(listener => {
+    if (priorityListeners.has(listener)) {
+      listener();
+    } else {
+      regular.push(listener);
+    }
+  });
+
+  regular.forEach(listener => listener());
+}
+
+/**
+ * Collect the listeners affected by a change at the given path:
+ * exact listeners, the owning array (for index changes), parents and children.
+ */
+function collectListeners(
+  pathListeners: PathListeners,
+  path: string[],
+  into: Set<Listener>,
+  includeChildren: boolean = true
+): void {
+  const pathKey = path.join('.');
+
+  // Exact path listeners
   if (pathListeners.has(pathKey)) {
     const listeners = pathListeners.get(pathKey);
     if (monitoringConfig.enabled && monitoringConfig.verboseLogging) {
       console.log(`🔔 Notifying ${listeners?.size} exact listeners for ${pathKey}`);
     }
-    listeners?.forEach(listener => listener());
+    listeners?.forEach(listener => into.add(listener));
   }
 
   // Special handling for array index changes - notify the array itself too
@@ -106,7 +478,7 @@ export function notifyListeners(path: string[]): void {
       if (monitoringConfig.enabled && monitoringConfig.verboseLogging) {
         console.log(`🔔 Notifying ${listeners?.size} array listeners for ${arrayPath} (index change)`);
       }
-      listeners?.forEach(listener => listener());
+      listeners?.forEach(listener => into.add(listener));
     }
   }
 
@@ -118,41 +490,33 @@ export function notifyListeners(path: string[]): void {
       if (monitoringConfig.enabled && monitoringConfig.verboseLogging) {
         console.log(`🔔 Notifying ${listeners?.size} parent listeners for ${parentPath}`);
       }
-      listeners?.forEach(listener => listener());
+      listeners?.forEach(listener => into.add(listener));
     }
   }
 
+  if (!includeChildren) return;
+
   // Notify child paths (if an object was completely replaced)
   const prefix = pathKey + '.';
   let childListenerCount = 0;
   pathListeners.forEach((listeners, key) => {
     if (key.startsWith(prefix)) {
       childListenerCount += listeners.size;
-      listeners.forEach(listener => listener());
+      listeners.forEach(listener => into.add(listener));
     }
   });
 
   if (monitoringConfig.enabled && monitoringConfig.verboseLogging && childListenerCount > 0) {
     console.log(`🔔 Notified ${childListenerCount} child listeners for paths starting with ${prefix}`);
   }
-
-  if (monitoringConfig.enabled && monitoringConfig.logStateChanges && startTime > 0) {
-    const duration = logTimingEnd('Notification cycle', startTime);
-    updateTimingStat('notify', duration);
-  }
-
-  // Fire the post-notification callback (persistence, etc.)
-  if (onStateChangeCallback) {
-    onStateChangeCallback(path);
-  }
 }
 
 /**
  * Get total number of active listeners
  */
-export function getListenerCount(): number {
+export function getListenerCount(registry: ListenerRegistry = defaultRegistry): number {
   let total = 0;
-  pathListeners.forEach(listeners => {
+  registry.pathListeners.forEach(listeners => {
     total += listeners.size;
   });
   return total;
@@ -161,15 +525,15 @@ export function getListenerCount(): number {
 /**
  * Get all active paths
  */
-export function getActivePaths(): string[] {
-  return Array.from(pathListeners.keys());
+export function getActivePaths(registry: ListenerRegistry = defaultRegistry): string[] {
+  return Array.from(registry.pathListeners.keys());
 }
 
 /**
  * Clear all listeners (for cleanup)
  */
-export function clearAllListeners(): void {
-  pathListeners.clear();
+export function clearAllListeners(registry: ListenerRegistry = defaultRegistry): void {
+  registry.pathListeners.clear();
   if (monitoringConfig.enabled) {
     console.log('🧹 All listeners cleared');
   }
@@ -191,7 +555,7 @@ function logTimingEnd(action: string, startTime: number): number {
   return duration;
 }
 
-function updateTimingStat(type: 'notify' | 'persist', duration: number) {
+function updateTimingStat(monitoringStats: MonitoringStats, type: 'notify' | 'persist', duration: number) {
   if (!monitoringConfig.enabled) return;
 
   if (type === 'notify') {
@@ -209,9 +573,10 @@ function updateTimingStat(type: 'notify' | 'persist', duration: number) {
   }
 }
 
-function logSubscriptionAdded(path: string) {
+function logSubscriptionAdded(registry: ListenerRegistry, path: string) {
   if (!monitoringConfig.enabled || !monitoringConfig.logSubscriptions) return;
 
+  const monitoringStats = registry.stats;
   monitoringStats.totalSubscriptionsCreated++;
   monitoringStats.activeSubscriptions++;
   monitoringStats.pathSubscriptionCounts[path] = (monitoringStats.pathSubscriptionCounts[path] || 0) + 1;
@@ -219,9 +584,10 @@ function logSubscriptionAdded(path: string) {
   console.log(`📈 Subscription ADDED to ${path}. Total: ${monitoringStats.activeSubscriptions}, Path count: ${monitoringStats.pathSubscriptionCounts[path]}`);
 }
 
-function logSubscriptionRemoved(path: string) {
+function logSubscriptionRemoved(registry: ListenerRegistry, path: string) {
   if (!monitoringConfig.enabled || !monitoringConfig.logSubscriptions) return;
 
+  const monitoringStats = registry.stats;
   monitoringStats.totalSubscriptionsRemoved++;
   monitoringStats.activeSubscriptions--;
   monitoringStats.pathSubscriptionCounts[path] = (monitoringStats.pathSubscriptionCounts[path] || 0) - 1;
@@ -230,7 +596,7 @@ function logSubscriptionRemoved(path: string) {
 
   // Alert if a path has no subscribers but still exists in the map
   if (monitoringStats.pathSubscriptionCounts[path] <= 0) {
-    const actualListeners = pathListeners.get(path)?.size || 0;
+    const actualListeners = registry.pathListeners.get(path)?.size || 0;
     if (actualListeners > 0) {
       console.warn(`⚠️ Path ${path} shows ${actualListeners} listeners but tracking shows ${monitoringStats.pathSubscriptionCounts[path]}`);
     }
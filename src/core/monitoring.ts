@@ -1,6 +1,24 @@
 import { pathListeners, monitoringStats } from './listeners';
 import { monitoringConfig } from '../config';
 import { pathUsageStats, selectorPaths, getProxyCacheStats, optimizeMemoryUsage } from './proxy';
+import type { MonitoringEvent } from '../types';
+
+// Listeners registered via monitorAPI.onEvent()
+const eventListeners = new Set<(event: MonitoringEvent) => void>();
+
+/**
+ * Report an event to monitorAPI.onEvent() listeners. Events are delivered
+ * even when monitoring logs are disabled.
+ */
+export function emitMonitoringEvent(event: MonitoringEvent): void {
+  eventListeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (e) {
+      console.error('Error in monitoring event listener:', e);
+    }
+  });
+}
 
 /**
  * Perform automatic leak check
@@ -69,6 +87,14 @@ export const monitorAPI = {
   // Get current stats
   getStats: () => ({ ...monitoringStats }),
 
+  // Listen for monitoring events (failed validations, migrations...). Returns an unsubscribe function.
+  onEvent: (listener: (event: MonitoringEvent) => void) => {
+    eventListeners.add(listener);
+    return () => {
+      eventListeners.delete(listener);
+    };
+  },
+
   // Get detailed listener info
   getListenerInfo: () => {
     const info: Record<string, number> = {};
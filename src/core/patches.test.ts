@@ -0,0 +1,127 @@
+import { createAdvancedProxy, clearProxyCache } from './proxy';
+import { clearAllListeners, setOnStateChangeCallback } from './listeners';
+import { applyPatches, parseJsonPointer, toJsonPointer } from './patches';
+import { monitoringConfig } from '../config';
+
+function createStore<T extends object>(state: T) {
+  clearProxyCache();
+  return createAdvancedProxy(state);
+}
+
+function createDocument() {
+  return {
+    document: {
+      title: 'Untitled',
+      subtitle: undefined as string | undefined,
+      tags: ['a', 'b', 'c', 'd'],
+      meta: {} as Record<string, string>,
+    },
+  };
+}
+
+describe('patches', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  beforeEach(() => {
+    clearAllListeners();
+    setOnStateChangeCallback(() => {});
+  });
+
+  it('escapes and parses JSON Pointers', () => {
+    expect(toJsonPointer(['a/b', 'c~d'])).toBe('/a~1b/c~0d');
+    expect(parseJsonPointer('/a~1b/c~0d')).toEqual(['a/b', 'c~d']);
+    expect(parseJsonPointer('')).toEqual([]);
+    expect(() => parseJsonPointer('a')).toThrow('Invalid JSON Pointer');
+  });
+
+  it('generates add and replace operations for property writes', () => {
+    const $ = createStore(createDocument());
+
+    const patches = $.document.$patches(doc => {
+      doc.title = 'Renamed';
+      doc.subtitle = 'Draft';
+      doc.meta.author = 'Ada';
+    });
+
+    expect(patches).toEqual([
+      { op: 'replace', path: '/title', value: 'Renamed' },
+      // The key existed, even though it held undefined
+      { op: 'replace', path: '/subtitle', value: 'Draft' },
+      { op: 'add', path: '/meta/author', value: 'Ada' },
+    ]);
+  });
+
+  it('round-trips set, delete, push and splice', () => {
+    const $ = createStore({ source: createDocument().document, replica: createDocument().document });
+
+    const patches = $.source.$patches(doc => {
+      doc.title = 'Renamed';
+      doc.meta.author = 'Ada';
+      delete doc.subtitle;
+      doc.tags.push('e');
+      doc.tags.splice(1, 2, 'x');
+    });
+
+    applyPatches($.replica, patches);
+    expect($.replica.raw()).toEqual($.source.raw());
+  });
+
+  it('reports array truncation as remove operations', () => {
+    const $ = createStore({ source: createDocument().document, replica: createDocument().document });
+
+    const patches = $.source.$patches(doc => {
+      doc.tags.length = 2;
+    });
+
+    expect(patches).toEqual([
+      { op: 'remove', path: '/tags/2' },
+      { op: 'remove', path: '/tags/2' },
+    ]);
+    applyPatches($.replica, patches);
+    expect([...$.replica.tags]).toEqual(['a', 'b']);
+  });
+
+  it('reports array growth as add operations', () => {
+    const $ = createStore({ source: createDocument().document, replica: createDocument().document });
+
+    const patches = $.source.$patches(doc => {
+      doc.tags.length = 6;
+    });
+
+    expect(patches).toEqual([
+      { op: 'add', path: '/tags/4', value: null },
+      { op: 'add', path: '/tags/5', value: null },
+    ]);
+    applyPatches($.replica, patches);
+    expect($.replica.tags.length).toBe(6);
+  });
+
+  it('leaves Set member changes out', () => {
+    const $ = createStore({ doc: { title: 'Untitled', selection: new Set<{ id: number }>() } });
+
+    const patches = $.doc.$patches(doc => {
+      doc.selection.add({ id: 1 });
+      doc.title = 'Renamed';
+    });
+
+    expect(patches).toEqual([{ op: 'replace', path: '/title', value: 'Renamed' }]);
+  });
+
+  it('rejects operations on missing targets and reverts earlier ones', () => {
+    const $ = createStore(createDocument());
+
+    expect(() => applyPatches($.document, [
+      { op: 'replace', path: '/title', value: 'Renamed' },
+      { op: 'replace', path: '/missing', value: 1 },
+    ])).toThrow('does not exist');
+    expect($.document.title).toBe('Untitled');
+
+    expect(() => applyPatches($.document, [{ op: 'remove', path: '/meta/author' }])).toThrow('does not exist');
+    expect(() => applyPatches($.document, [{ op: 'replace', path: '/tags/4', value: 'e' }])).toThrow('invalid array index');
+    expect(() => applyPatches($.document, [{ op: 'add', path: '/tags/5', value: 'e' }])).toThrow('invalid array index');
+    expect(() => applyPatches($.document, [{ op: 'add', path: '/nested/key', value: 1 }])).toThrow('does not exist');
+    expect([...$.document.tags]).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
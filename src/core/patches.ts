@@ -0,0 +1,207 @@
+import { batch, captureChanges } from './listeners';
+import { transaction } from './transaction';
+import { deepClone } from './clone';
+import { resolvePath } from './paths';
+import type { ChangeRecord, JsonPatchOperation } from '../types';
+
+/**
+ * Escape a path segment for use in a JSON Pointer (RFC 6901)
+ */
+function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Convert path segments to a JSON Pointer string ('' is the document root)
+ */
+export function toJsonPointer(segments: string[]): string {
+  return segments.map(segment => `/${escapePointerSegment(segment)}`).join('');
+}
+
+/**
+ * Parse a JSON Pointer string into path segments
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return [];
+
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer "${pointer}": must be empty or start with "/"`);
+  }
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Translate a change record into RFC 6902 operations, with pointers relative to `basePath`.
+ * Changes outside of `basePath` produce no operations.
+ */
+export function changeToPatches(change: ChangeRecord, basePath: string[] = []): JsonPatchOperation[] {
+  const isInside = basePath.every((segment, i) => change.path[i] === segment);
+  if (!isInside || change.path.length < basePath.length) return [];
+
+  const relativePath = change.path.slice(basePath.length);
+
+  switch (change.op) {
+    case 'set':
+      if (relativePath.length === 0) return [];
+      return [{
+        op: change.hadKey ? 'replace' : 'add',
+        path: toJsonPointer(relativePath),
+        value: change.newValue,
+      }];
+
+    case 'delete':
+      if (relativePath.length === 0) return [];
+      return [{ op: 'remove', path: toJsonPointer(relativePath) }];
+
+    case 'push':
+    case 'splice': {
+      if (relativePath.length === 0) return [];
+
+      const arrayPath = relativePath.slice(0, -1);
+      const start = Number(relativePath[relativePath.length - 1]);
+      const removed = change.oldValue as unknown[];
+      const inserted = change.newValue as unknown[];
+      const operations: JsonPatchOperation[] = [];
+
+      // Each removal shifts the following items down, so always remove at `start`
+      removed.forEach(() => {
+        operations.push({ op: 'remove', path: toJsonPointer([...arrayPath, String(start)]) });
+      });
+
+      // JSON has no `undefined`: empty slots are sent as null, like JSON.stringify does
+      inserted.forEach((item, i) => {
+        operations.push({
+          op: 'add',
+          path: toJsonPointer([...arrayPath, String(start + i)]),
+          value: item === undefined ? null : item,
+        });
+      });
+
+      return operations;
+    }
+
+    case 'reset':
+      return [{ op: 'replace', path: toJsonPointer(relativePath), value: change.newValue }];
+
+    default:
+      return [];
+  }
+}
+
+function isSetMemberChange(change: ChangeRecord, basePath: string[], target: object): boolean {
+  if (change.op !== 'set' && change.op !== 'delete') return false;
+  return resolvePath(target, change.path.slice(basePath.length, -1)) instanceof Set;
+}
+
+/**
+ * Run a function and return the JSON Patch operations for every change it makes
+ * at or below `basePath`. Used by the `$patches()` proxy method.
+ *
+ * Set members have no JSON Pointer, so with `target` (the proxy at `basePath`)
+ * changes to Sets are left out.
+ */
+export function generatePatches(fn: () => void, basePath: string[] = [], target?: object): JsonPatchOperation[] {
+  const { changes } = batch(() => captureChanges(fn));
+
+  const patches: JsonPatchOperation[] = [];
+  changes.forEach(change => {
+    if (target && isSetMemberChange(change, basePath, target)) return;
+    patches.push(...changeToPatches(change, basePath));
+  });
+
+  return patches;
+}
+
+/**
+ * Apply RFC 6902 patches (`add`, `replace`, `remove`) to a store proxy.
+ *
+ * Patches are applied through the proxy, so listeners and persistence fire as
+ * for any other mutation. All operations run in a single transaction: if one
+ * fails (e.g. its path doesn't exist, or a `replace` or `remove` targets a
+ * missing key or index), every previous operation is reverted.
+ *
+ * Pointers are resolved relative to `target`, so patches produced by
+ * `$.document.$patches()` are applied with `applyPatches($.document, patches)`.
+ *
+ * @example
+ * const patches = $.document.$patches(doc => {
+ *   doc.title = 'Renamed';
+ *   doc.tags.push('draft');
+ * });
+ * // → [{ op: 'replace', path: '/title', value: 'Renamed' }, { op: 'add', path: '/tags/0', value: 'draft' }]
+ *
+ * // On another client
+ * applyPatches($.document, patches);
+ *
+ * @param target - The store proxy the pointers are relative to (usually `$`)
+ * @param patches - The operations to apply, in order
+ */
+export function applyPatches<T extends object>(target: T, patches: JsonPatchOperation[]): T {
+  transaction(() => {
+    patches.forEach(patch => applyPatch(target, patch));
+  });
+
+  return target;
+}
+
+function applyPatch(target: any, patch: JsonPatchOperation): void {
+  const segments = parseJsonPointer(patch.path);
+  const value = deepClone(patch.value);
+
+  if (segments.length === 0) {
+    if (patch.op === 'remove' || typeof target.$set !== 'function') {
+      throw new Error(`Cannot apply "${patch.op}" patch to the root of the target`);
+    }
+    target.$set(value);
+    return;
+  }
+
+  const parent = resolvePath(target, segments.slice(0, -1));
+  const key = segments[segments.length - 1];
+
+  if (parent === null || parent === undefined || typeof parent !== 'object') {
+    throw new Error(`Cannot apply "${patch.op}" patch: path "${patch.path}" does not exist`);
+  }
+
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : Number(key);
+    // `add` may append at `length`; `replace` and `remove` need an existing item
+    const maxIndex = patch.op === 'add' ? parent.length : parent.length - 1;
+    if (!Number.isInteger(index) || index < 0 || index > maxIndex) {
+      throw new Error(`Cannot apply "${patch.op}" patch: invalid array index in "${patch.path}"`);
+    }
+
+    if (patch.op === 'add') {
+      parent.splice(index, 0, value);
+    } else if (patch.op === 'remove') {
+      parent.splice(index, 1);
+    } else {
+      parent[index] = value;
+    }
+    return;
+  }
+
+  const exists = parent instanceof Map ? parent.has(key) : Object.prototype.hasOwnProperty.call(parent, key);
+  if (patch.op !== 'add' && !exists) {
+    throw new Error(`Cannot apply "${patch.op}" patch: path "${patch.path}" does not exist`);
+  }
+
+  if (parent instanceof Map) {
+    if (patch.op === 'remove') {
+      parent.delete(key);
+    } else {
+      parent.set(key, value);
+    }
+    return;
+  }
+
+  if (patch.op === 'remove') {
+    delete parent[key];
+  } else {
+    parent[key] = value;
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Walk a store (or any proxy/object) along the given path segments.
+ * Map entries are looked up by key. Returns undefined if any segment along
+ * the way is missing.
+ */
+export function resolvePath(root: any, path: string[]): any {
+  let current = root;
+
+  for (const segment of path) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = current instanceof Map ? current.get(segment) : current[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Check if a dotted path equals one of the prefixes or is nested under one.
+ */
+export function matchesPathPrefix(pathKey: string, prefixes: string[]): boolean {
+  return prefixes.some(prefix =>
+    prefix === '' || pathKey === prefix || pathKey.startsWith(`${prefix}.`)
+  );
+}
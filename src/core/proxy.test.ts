@@ -0,0 +1,180 @@
+import { createAdvancedProxy, clearProxyCache, pathUsageStats } from './proxy';
+import { subscribe, onChange, clearAllListeners, setOnStateChangeCallback } from './listeners';
+import { transaction } from './transaction';
+import { trackDependencies } from './tracking';
+import { createReadonlySnapshot } from './snapshot';
+import { monitoringConfig } from '../config';
+import type { ChangeRecord } from '../types';
+
+function createStore<T extends object>(state: T) {
+  clearProxyCache();
+  return createAdvancedProxy(state);
+}
+
+describe('array mutators', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  beforeEach(() => {
+    clearAllListeners();
+    setOnStateChangeCallback(() => {});
+  });
+
+  it('notifies the array once and only the affected indices', () => {
+    const $ = createStore({ items: [5, 1, 4, 2, 3] });
+    const arrayListener = jest.fn();
+    const firstListener = jest.fn();
+    const lastListener = jest.fn();
+    subscribe('items', arrayListener);
+    subscribe('items.0', firstListener);
+    subscribe('items.4', lastListener);
+
+    $.items.pop();
+    expect(arrayListener).toHaveBeenCalledTimes(1);
+    expect(firstListener).not.toHaveBeenCalled();
+    expect(lastListener).toHaveBeenCalledTimes(1);
+
+    $.items.sort((a, b) => a - b);
+    expect($.items.raw()).toEqual([1, 2, 4, 5]);
+    expect(arrayListener).toHaveBeenCalledTimes(2);
+    expect(firstListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('emits one change record per mutation and tracks the modified path', () => {
+    const $ = createStore({ list: ['a', 'b', 'c'] });
+    const changes: ChangeRecord[] = [];
+    const stop = onChange(change => changes.push(change));
+
+    $.list.unshift('z');
+    $.list.reverse();
+    $.list.fill('x', 0, 1);
+    stop();
+
+    expect($.list.raw()).toEqual(['x', 'b', 'a', 'z']);
+    expect(changes.map(change => [change.op, change.path.join('.')])).toEqual([
+      ['splice', 'list.0'],
+      ['splice', 'list.0'],
+      ['splice', 'list.0'],
+    ]);
+    expect(changes[0].newValue).toEqual(['z']);
+    expect(pathUsageStats.modifiedPaths.has('list')).toBe(true);
+  });
+
+  it('does not notify when the mutation changes nothing', () => {
+    const $ = createStore({ list: [1, 1, 1] });
+    const listener = jest.fn();
+    subscribe('list', listener);
+
+    $.list.fill(1);
+    $.list.sort();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('reverts in-place mutations when a transaction fails', () => {
+    const $ = createStore({ list: [3, 1, 2] });
+
+    expect(() => transaction(() => {
+      $.list.sort();
+      $.list.shift();
+      $.list.copyWithin(0, 1);
+      throw new Error('abort');
+    })).toThrow('abort');
+
+    expect($.list.raw()).toEqual([3, 1, 2]);
+  });
+});
+
+describe('reactive collections', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  beforeEach(() => {
+    clearAllListeners();
+    setOnStateChangeCallback(() => {});
+  });
+
+  it('tracks Map reads per key and notifies only that key', () => {
+    const $ = createStore({ users: new Map([['a', { name: 'Ann' }], ['b', { name: 'Bob' }]]) });
+
+    const { value, paths } = trackDependencies(() => $.users.get('a')!.name);
+    expect(value).toBe('Ann');
+    expect(paths).toContain('users.a');
+
+    const aListener = jest.fn();
+    const bListener = jest.fn();
+    subscribe('users.a', aListener);
+    subscribe('users.b', bListener);
+
+    $.users.set('a', { name: 'Alice' });
+    $.users.get('a')!.name = 'Alicia';
+    $.users.delete('c');
+
+    expect(aListener).toHaveBeenCalledTimes(2);
+    expect(bListener).not.toHaveBeenCalled();
+    expect($.users.raw().get('a')).toEqual({ name: 'Alicia' });
+  });
+
+  it('notifies Set members and reverts them in a failed transaction', () => {
+    const $ = createStore({ tags: new Set(['news']) });
+    const listener = jest.fn();
+    subscribe('tags', listener);
+
+    $.tags.add('sports');
+    $.tags.add('sports');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    expect(() => transaction(() => {
+      $.tags.clear();
+      throw new Error('abort');
+    })).toThrow('abort');
+
+    expect(Array.from($.tags).sort()).toEqual(['news', 'sports']);
+  });
+
+  it('gives object Set members distinct paths', () => {
+    const first = { id: 1 };
+    const second = { id: 2 };
+    const $ = createStore({ selection: new Set([first]) });
+
+    const { paths } = trackDependencies(() => $.selection.has(first));
+    const firstPath = paths[paths.length - 1];
+    expect(firstPath).toMatch(/^selection\.\[object #\d+\]$/);
+
+    const listener = jest.fn();
+    subscribe(firstPath, listener);
+    const records: ChangeRecord[] = [];
+    const stop = onChange(change => records.push(change));
+
+    $.selection.add(second);
+    expect(listener).not.toHaveBeenCalled();
+    $.selection.delete(first);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    expect(records[0].path.join('.')).not.toBe(firstPath);
+    expect(records[1].path.join('.')).toBe(firstPath);
+    stop();
+  });
+
+  it('snapshots collections into frozen copies', () => {
+    const $ = createStore({ users: new Map([['a', { name: 'Ann' }]]) });
+    const snapshot = createReadonlySnapshot($.users) as Map<string, { name: string }>;
+
+    expect(snapshot).not.toBe($.users.raw());
+    expect(snapshot.get('a')).toEqual({ name: 'Ann' });
+    expect(() => snapshot.set('b', { name: 'Bob' })).toThrow(TypeError);
+    expect(Object.isFrozen(snapshot)).toBe(true);
+  });
+
+  it('stores WeakMaps without proxying them', () => {
+    const cache = new WeakMap<object, number>();
+    const $ = createStore({ cache });
+    const key = {};
+
+    $.cache.set(key, 1);
+    expect($.cache).toBe(cache);
+    expect(cache.get(key)).toBe(1);
+  });
+});
@@ -1,6 +1,7 @@
-import { notifyListeners } from './listeners';
+import { notifyListeners, batch, hasChangeListeners, createListenerRegistry, defaultRegistry } from './listeners';
+import type { ListenerRegistry } from './listeners';
 import { proxyConfig, monitoringConfig } from '../config';
-import type { CustomMethods, CustomArrayMethods } from '../types';
+import type { CustomMethods, CustomArrayMethods, ChangeRecord, ChangeOperation, ProxyCacheStats } from '../types';
 import {
   trackPathAccess,
   isCurrentlyTracking,
@@ -8,14 +9,15 @@ import {
   capturePathsDuring,
   addTrackedPaths,
 } from './tracking';
+import { recordWrite, recordArrayWrite, recordCollectionWrite } from './transaction';
+import { createReadonlySnapshot } from './snapshot';
+import { deepClone } from './clone';
+import { generatePatches } from './patches';
 
 // Track proxy to path mapping for type-safe activation
 export const proxyPathMap = new WeakMap<object, string[]>();
 export const proxyTargetMap = new WeakMap<object, object>();
 
-// Store a deep clone of the initial store state for use with $reset
-let initialStoreState: any = {};
-
 // Path usage tracking
 export const pathUsageStats = {
   accessedPaths: new Set<string>(),
@@ -26,110 +28,165 @@ export const pathUsageStats = {
 // Selector paths for ultra-selective proxying
 export const selectorPaths = new Set<string>();
 
-// Proxy cache using WeakMap for garbage collection
-let proxyCache = new WeakMap<object, any>();
+// LRU tracking for a proxy cache
+interface ProxyCacheLRU {
+  keys: any[];
+  timestamp: number[];
+  maxSize: number;
+  add(key: any, proxy: any): void;
+  touch(key: any): void;
+  evictOldest(): void;
+  evictPercentage(percent: number): number;
+  size(): number;
+  clear(): void;
+}
 
-// Proxy cache statistics
-export const proxyCacheStats = {
-  cacheHits: 0,
-  cacheMisses: 0,
-  totalProxiesCreated: 0,
-  activeCachedProxies: 0
-};
+/**
+ * Proxy state owned by a single store instance: its listener registry, its
+ * proxy cache and the initial state used by `$reset`. Every store created with
+ * `createStore()` gets its own context; the default `$` store uses
+ * `defaultProxyContext`.
+ */
+export interface ProxyContext {
+  listeners: ListenerRegistry;
+  // Proxy cache using WeakMap for garbage collection
+  cache: WeakMap<object, any>;
+  cacheStats: ProxyCacheStats;
+  cacheLRU: ProxyCacheLRU;
+  // Deep clone of the initial store state for use with $reset
+  initialState: any;
+}
 
-// LRU tracking for proxy cache
-const proxyCacheLRU = {
-  keys: [] as any[],
-  timestamp: [] as number[],
-  maxSize: proxyConfig.maxProxyCacheSize,
+function createProxyCacheLRU(context: ProxyContext): ProxyCacheLRU {
+  return {
+    keys: [] as any[],
+    timestamp: [] as number[],
+    maxSize: proxyConfig.maxProxyCacheSize,
+
+    add(key: any, _proxy: any) {
+      if (key && typeof key === 'object') {
+        const index = this.keys.findIndex(k => k === key);
+        if (index !== -1) {
+          this.timestamp[index] = Date.now();
+        } else {
+          this.keys.push(key);
+          this.timestamp.push(Date.now());
 
-  add(key: any, proxy: any) {
-    if (key && typeof key === 'object') {
+          if (this.keys.length > this.maxSize) {
+            this.evictOldest();
+          }
+        }
+      }
+    },
+
+    touch(key: any) {
       const index = this.keys.findIndex(k => k === key);
       if (index !== -1) {
         this.timestamp[index] = Date.now();
-      } else {
-        this.keys.push(key);
-        this.timestamp.push(Date.now());
+      }
+    },
+
+    evictOldest() {
+      if (this.keys.length === 0) return;
 
-        if (this.keys.length > this.maxSize) {
-          this.evictOldest();
+      let oldestIndex = 0;
+      let oldestTime = this.timestamp[0];
+
+      for (let i = 1; i < this.timestamp.length; i++) {
+        if (this.timestamp[i] < oldestTime) {
+          oldestTime = this.timestamp[i];
+          oldestIndex = i;
         }
       }
-    }
-  },
 
-  touch(key: any) {
-    const index = this.keys.findIndex(k => k === key);
-    if (index !== -1) {
-      this.timestamp[index] = Date.now();
-    }
-  },
+      const oldestKey = this.keys[oldestIndex];
+      if (oldestKey && context.cache.has(oldestKey)) {
+        context.cache.delete(oldestKey);
+        context.cacheStats.activeCachedProxies--;
+      }
+
+      this.keys.splice(oldestIndex, 1);
+      this.timestamp.splice(oldestIndex, 1);
+    },
 
-  evictOldest() {
-    if (this.keys.length === 0) return;
+    evictPercentage(percent: number) {
+      const count = Math.ceil(this.keys.length * percent);
+      if (count <= 0) return 0;
 
-    let oldestIndex = 0;
-    let oldestTime = this.timestamp[0];
+      const indices = Array.from({ length: this.keys.length }, (_, i) => i)
+        .sort((a, b) => this.timestamp[a] - this.timestamp[b]);
 
-    for (let i = 1; i < this.timestamp.length; i++) {
-      if (this.timestamp[i] < oldestTime) {
-        oldestTime = this.timestamp[i];
-        oldestIndex = i;
+      let evicted = 0;
+      for (let i = 0; i < count && i < indices.length; i++) {
+        const key = this.keys[indices[i]];
+        if (key && context.cache.has(key)) {
+          context.cache.delete(key);
+          evicted++;
+        }
       }
-    }
 
-    const oldestKey = this.keys[oldestIndex];
-    if (oldestKey && proxyCache.has(oldestKey)) {
-      proxyCache.delete(oldestKey);
-      proxyCacheStats.activeCachedProxies--;
-    }
+      const newKeys: any[] = [];
+      const newTimestamps: number[] = [];
 
-    this.keys.splice(oldestIndex, 1);
-    this.timestamp.splice(oldestIndex, 1);
-  },
+      for (let i = count; i < indices.length; i++) {
+        const idx = indices[i];
+        newKeys.push(this.keys[idx]);
+        newTimestamps.push(this.timestamp[idx]);
+      }
 
-  evictPercentage(percent: number) {
-    const count = Math.ceil(this.keys.length * percent);
-    if (count <= 0) return 0;
+      this.keys = newKeys;
+      this.timestamp = newTimestamps;
+      context.cacheStats.activeCachedProxies -= evicted;
 
-    const indices = Array.from({ length: this.keys.length }, (_, i) => i)
-      .sort((a, b) => this.timestamp[a] - this.timestamp[b]);
+      return evicted;
+    },
 
-    let evicted = 0;
-    for (let i = 0; i < count && i < indices.length; i++) {
-      const key = this.keys[indices[i]];
-      if (key && proxyCache.has(key)) {
-        proxyCache.delete(key);
-        evicted++;
-      }
+    size() {
+      return this.keys.length;
+    },
+
+    clear() {
+      this.keys = [];
+      this.timestamp = [];
     }
+  };
+}
 
-    const newKeys: any[] = [];
-    const newTimestamps: number[] = [];
+/**
+ * Create a fresh proxy context (cache, stats and initial state) for a store instance
+ */
+export function createProxyContext(listeners: ListenerRegistry = createListenerRegistry()): ProxyContext {
+  const context = {
+    listeners,
+    cache: new WeakMap<object, any>(),
+    cacheStats: {
+      cacheHits: 0,
+      cacheMisses: 0,
+      totalProxiesCreated: 0,
+      activeCachedProxies: 0
+    },
+    initialState: {},
+  } as ProxyContext;
 
-    for (let i = count; i < indices.length; i++) {
-      const idx = indices[i];
-      newKeys.push(this.keys[idx]);
-      newTimestamps.push(this.timestamp[idx]);
-    }
+  context.cacheLRU = createProxyCacheLRU(context);
+  return context;
+}
 
-    this.keys = newKeys;
-    this.timestamp = newTimestamps;
-    proxyCacheStats.activeCachedProxies -= evicted;
+// Context of the default store
+export const defaultProxyContext = createProxyContext(defaultRegistry);
 
-    return evicted;
-  },
+// Proxy cache statistics (default store)
+export const proxyCacheStats = defaultProxyContext.cacheStats;
 
-  size() {
-    return this.keys.length;
-  },
+// Track which store context each proxy belongs to
+export const proxyContextMap = new WeakMap<object, ProxyContext>();
 
-  clear() {
-    this.keys = [];
-    this.timestamp = [];
-  }
-};
+/**
+ * Get the store context of a proxy (the default context for non-proxies)
+ */
+export function getProxyContext(proxy: object, fallback: ProxyContext = defaultProxyContext): ProxyContext {
+  return proxyContextMap.get(proxy) || fallback;
+}
 
 // Memory pressure detection
 export const memoryPressure = {
@@ -177,7 +234,7 @@ export const memoryPressure = {
   },
 
   estimateMemoryUsage(): number {
-    const proxyCacheSize = proxyCacheLRU.size() * 2;
+    const proxyCacheSize = defaultProxyContext.cacheLRU.size() * 2;
     const pathStatsSize = (pathUsageStats.accessedPaths.size +
       pathUsageStats.modifiedPaths.size +
       pathUsageStats.subscribedPaths.size) * 0.2;
@@ -190,8 +247,48 @@ export const memoryPressure = {
 /**
  * Set the initial store state for reset functionality
  */
-export function setInitialStoreState(state: any): void {
-  initialStoreState = JSON.parse(JSON.stringify(state));
+export function setInitialStoreState(state: any, context: ProxyContext = defaultProxyContext): void {
+  context.initialState = deepClone(state);
+}
+
+// While > 0, the set/deleteProperty traps don't emit change records — custom
+// methods (push, splice, $reset...) emit a single record for the whole operation.
+let changeRecordSuppression = 0;
+
+function withoutChangeRecords<T>(fn: () => T): T {
+  changeRecordSuppression++;
+  try {
+    return fn();
+  } finally {
+    changeRecordSuppression--;
+  }
+}
+
+/**
+ * Check if a change record should be built for the current mutation
+ */
+function shouldRecordChange(context: ProxyContext): boolean {
+  return changeRecordSuppression === 0 && hasChangeListeners(context.listeners);
+}
+
+function createChangeRecord(
+  path: string[],
+  op: ChangeOperation,
+  oldValue: unknown,
+  newValue: unknown,
+  hadKey?: boolean
+): ChangeRecord {
+  const change: ChangeRecord = {
+    path,
+    op,
+    oldValue: createReadonlySnapshot(oldValue),
+    newValue: createReadonlySnapshot(newValue),
+    timestamp: Date.now(),
+  };
+  if (hadKey !== undefined) {
+    change.hadKey = hadKey;
+  }
+  return change;
 }
 
 /**
@@ -210,12 +307,20 @@ function isHighPriorityPath(path: string[]): boolean {
 export function createAdvancedProxy<T extends object>(
   target: T,
   path: string[] = [],
-  depth: number = 0
+  depth: number = 0,
+  context: ProxyContext = defaultProxyContext
 ): T & (T extends any[] ? CustomArrayMethods<T[0]> : CustomMethods<T>) {
   if (target === null || typeof target !== 'object') {
     return target as any;
   }
 
+  // WeakMap/WeakSet, Dates, RegExps and binary data keep their state in internal
+  // slots, so their methods throw when called on a proxy — they are stored
+  // as-is and are not reactive (replace them to trigger updates)
+  if (isOpaqueObject(target)) {
+    return target as any;
+  }
+
   if (!proxyConfig.enabled) {
     return target as any;
   }
@@ -238,10 +343,10 @@ export function createAdvancedProxy<T extends object>(
   }
 
   // Check for cached proxy
-  if (proxyCache.has(target)) {
-    proxyCacheStats.cacheHits++;
-    proxyCacheLRU.touch(target);
-    return proxyCache.get(target);
+  if (context.cache.has(target)) {
+    context.cacheStats.cacheHits++;
+    context.cacheLRU.touch(target);
+    return context.cache.get(target);
   }
 
   // Check depth limit
@@ -250,9 +355,22 @@ export function createAdvancedProxy<T extends object>(
   }
 
   // Create new proxy
-  proxyCacheStats.cacheMisses++;
-  proxyCacheStats.totalProxiesCreated++;
-  proxyCacheStats.activeCachedProxies++;
+  context.cacheStats.cacheMisses++;
+  context.cacheStats.totalProxiesCreated++;
+  context.cacheStats.activeCachedProxies++;
+
+  // Maps and Sets get a dedicated handler that instruments their methods
+  if (isCollection(target)) {
+    const collectionProxy = new Proxy(target, createCollectionHandler(target, path, depth, context));
+
+    context.cache.set(target, collectionProxy);
+    context.cacheLRU.add(target, collectionProxy);
+    proxyPathMap.set(collectionProxy, [...path]);
+    proxyTargetMap.set(collectionProxy, target);
+    proxyContextMap.set(collectionProxy, context);
+
+    return collectionProxy as any;
+  }
 
   // If target is not extensible, clone it
   if (!Object.isExtensible(target)) {
@@ -261,12 +379,12 @@ export function createAdvancedProxy<T extends object>(
 
   // Add custom methods for objects
   if (typeof target === 'object' && !Array.isArray(target)) {
-    addObjectMethods(target, path);
+    addObjectMethods(target, path, context);
   }
 
   // Add custom methods for arrays
   if (Array.isArray(target)) {
-    addArrayMethods(target, path);
+    addArrayMethods(target, path, context);
   }
 
   const proxy = new Proxy(target, {
@@ -293,7 +411,7 @@ export function createAdvancedProxy<T extends object>(
       }
 
       // Track path access for dependency tracking (inline to avoid circular dependency)
-      trackPathAccess(currentPropPath);
+      trackPathAccess(currentPropPath, context.listeners);
 
       // For objects, create proxies for nested values
       if (value && typeof value === 'object' && path.length < proxyConfig.maxDepth) {
@@ -309,7 +427,7 @@ export function createAdvancedProxy<T extends object>(
           proxyConfig.preProxyPaths.some(p => propPathKey === p || propPathKey.startsWith(`${p}.`));
 
         if (shouldProxy) {
-          return createAdvancedProxy(value as any, currentPropPath, depth + 1);
+          return createAdvancedProxy(value as any, currentPropPath, depth + 1, context);
         }
       }
 
@@ -328,8 +446,20 @@ export function createAdvancedProxy<T extends object>(
         pathUsageStats.modifiedPaths.add(propPathKey);
       }
 
+      let change: ChangeRecord | undefined;
+      if (shouldRecordChange(context)) {
+        // Changing `length` drops items or appends empty slots, so it is
+        // reported like splice() to keep patches and undo index-based
+        change = Array.isArray(obj) && prop === 'length' && typeof value === 'number' && value !== obj.length
+          ? value < obj.length
+            ? createChangeRecord([...path, String(value)], 'splice', obj.slice(value), [])
+            : createChangeRecord([...path, String(obj.length)], 'splice', [], new Array(value - obj.length).fill(undefined))
+          : createChangeRecord(propPath, 'set', Reflect.get(obj, prop), value, Object.prototype.hasOwnProperty.call(obj, prop));
+      }
+
+      recordWrite(obj, prop, value);
       const result = Reflect.set(obj, prop, value);
-      notifyListeners(propPath);
+      notifyListeners(propPath, change, true, context.listeners);
 
       return result;
     },
@@ -342,10 +472,15 @@ export function createAdvancedProxy<T extends object>(
           pathUsageStats.modifiedPaths.add(propPathKey);
         }
 
+        const change = shouldRecordChange(context) && Object.prototype.hasOwnProperty.call(obj, prop)
+          ? createChangeRecord(propPath, 'delete', Reflect.get(obj, prop), undefined)
+          : undefined;
+
+        recordWrite(obj, prop);
         const result = Reflect.deleteProperty(obj, prop);
         if (result) {
           // Notify the deleted property path (this will also notify parent/child paths)
-          notifyListeners(propPath);
+          notifyListeners(propPath, change, true, context.listeners);
         }
         return result;
       }
@@ -355,12 +490,13 @@ export function createAdvancedProxy<T extends object>(
   });
 
   // Cache the proxy
-  proxyCache.set(target, proxy);
-  proxyCacheLRU.add(target, proxy);
+  context.cache.set(target, proxy);
+  context.cacheLRU.add(target, proxy);
 
-  // Track the path for this proxy
+  // Track the path and store context for this proxy
   proxyPathMap.set(proxy, [...path]);
   proxyTargetMap.set(proxy, target);
+  proxyContextMap.set(proxy, context);
 
   return proxy as any;
 }
@@ -368,7 +504,7 @@ export function createAdvancedProxy<T extends object>(
 /**
  * Add custom methods to object targets
  */
-function addObjectMethods<T extends object>(target: T, path: string[]): void {
+function addObjectMethods<T extends object>(target: T, path: string[], context: ProxyContext): void {
   const methodsToDefine: Record<string, PropertyDescriptor> = {};
 
   if (!('$merge' in target)) {
@@ -376,13 +512,15 @@ function addObjectMethods<T extends object>(target: T, path: string[]): void {
       value: function (newProps: Partial<T>) {
         const currentPath = proxyPathMap.get(this) || path;
 
-        Object.keys(newProps).forEach(key => {
-          if (proxyConfig.trackPathUsage) {
-            const propPath = [...currentPath, key].join('.');
-            pathUsageStats.modifiedPaths.add(propPath);
-          }
+        batch(() => {
+          Object.keys(newProps).forEach(key => {
+            if (proxyConfig.trackPathUsage) {
+              const propPath = [...currentPath, key].join('.');
+              pathUsageStats.modifiedPaths.add(propPath);
+            }
 
-          Reflect.set(this, key, (newProps as any)[key], this);
+            Reflect.set(this, key, (newProps as any)[key], this);
+          });
         });
 
         return this;
@@ -396,19 +534,21 @@ function addObjectMethods<T extends object>(target: T, path: string[]): void {
       value: function (newProps: Partial<T>) {
         const currentPath = proxyPathMap.get(this) || path;
 
-        Object.keys(this).forEach(key => {
-          if (typeof (this as any)[key] !== 'function') {
-            Reflect.deleteProperty(this, key);
-          }
-        });
+        batch(() => {
+          Object.keys(this).forEach(key => {
+            if (typeof (this as any)[key] !== 'function') {
+              Reflect.deleteProperty(this, key);
+            }
+          });
 
-        Object.keys(newProps || {}).forEach(key => {
-          if (proxyConfig.trackPathUsage) {
-            const propPath = [...currentPath, key].join('.');
-            pathUsageStats.modifiedPaths.add(propPath);
-          }
+          Object.keys(newProps || {}).forEach(key => {
+            if (proxyConfig.trackPathUsage) {
+              const propPath = [...currentPath, key].join('.');
+              pathUsageStats.modifiedPaths.add(propPath);
+            }
 
-          Reflect.set(this, key, (newProps as any)[key], this);
+            Reflect.set(this, key, (newProps as any)[key], this);
+          });
         });
 
         return this;
@@ -420,12 +560,13 @@ function addObjectMethods<T extends object>(target: T, path: string[]): void {
   if (!('$delete' in target)) {
     methodsToDefine.$delete = {
       value: function (keys: keyof T | Array<keyof T>) {
-        const currentPath = proxyPathMap.get(this) || path;
         const keysToDelete = Array.isArray(keys) ? keys : [keys];
 
-        keysToDelete.forEach(key => {
-          // Use Reflect.deleteProperty to trigger the deleteProperty handler
-          Reflect.deleteProperty(this, key as string | symbol);
+        batch(() => {
+          keysToDelete.forEach(key => {
+            // Use Reflect.deleteProperty to trigger the deleteProperty handler
+            Reflect.deleteProperty(this, key as string | symbol);
+          });
         });
 
         return this;
@@ -459,8 +600,9 @@ function addObjectMethods<T extends object>(target: T, path: string[]): void {
     methodsToDefine.$reset = {
       value: function () {
         const currentPath = proxyPathMap.get(this) || path;
+        const currentContext = getProxyContext(this, context);
 
-        let initialValue: any = initialStoreState;
+        let initialValue: any = currentContext.initialState;
         for (const segment of currentPath) {
           if (initialValue && typeof initialValue === 'object' && segment in initialValue) {
             initialValue = initialValue[segment];
@@ -471,20 +613,35 @@ function addObjectMethods<T extends object>(target: T, path: string[]): void {
         }
 
         if (initialValue !== undefined) {
-          // Clear existing properties
-          Object.keys(this).forEach((key: string) => {
-            if (typeof (this as any)[key] !== 'function') {
-              Reflect.deleteProperty(this, key);
+          const previousValue = shouldRecordChange(currentContext) ? createReadonlySnapshot(this) : undefined;
+
+          batch(() => {
+            withoutChangeRecords(() => {
+              // Clear existing properties
+              Object.keys(this).forEach((key: string) => {
+                if (typeof (this as any)[key] !== 'function') {
+                  Reflect.deleteProperty(this, key);
+                }
+              });
+
+              // Set new properties
+              if (initialValue && typeof initialValue === 'object') {
+                Object.entries(initialValue).forEach(([key, value]) => {
+                  // Use Reflect.set with this proxy as the receiver to trigger the set handler
+                  Reflect.set(this, key, deepClone(value), this);
+                });
+              }
+            });
+
+            if (previousValue !== undefined) {
+              notifyListeners(
+                currentPath,
+                createChangeRecord(currentPath, 'reset', previousValue, this),
+                true,
+                currentContext.listeners
+              );
             }
           });
-
-          // Set new properties
-          if (initialValue && typeof initialValue === 'object') {
-            Object.entries(initialValue).forEach(([key, value]) => {
-              // Use Reflect.set with this proxy as the receiver to trigger the set handler
-              Reflect.set(this, key, JSON.parse(JSON.stringify(value)), this);
-            });
-          }
         }
 
         return this;
@@ -493,10 +650,27 @@ function addObjectMethods<T extends object>(target: T, path: string[]): void {
     };
   }
 
+  if (!('$patches' in target)) {
+    methodsToDefine.$patches = {
+      value: function (recipe: (draft: T) => void) {
+        const currentPath = proxyPathMap.get(this) || path;
+        return generatePatches(() => recipe(this as any), currentPath, this);
+      },
+      enumerable: false
+    };
+  }
+
+  if (path.length === 0 && !('batch' in target)) {
+    methodsToDefine.batch = {
+      value: batch,
+      enumerable: false
+    };
+  }
+
   if (!('raw' in target)) {
     methodsToDefine.raw = {
       value: function () {
-        return JSON.parse(JSON.stringify(this));
+        return deepClone(this);
       },
       enumerable: false,
       configurable: true
@@ -509,30 +683,153 @@ function addObjectMethods<T extends object>(target: T, path: string[]): void {
 }
 
 /**
- * Add custom methods to array targets
+ * A single contiguous replacement in an array: `removed` items at `start`
+ * were replaced by `inserted`.
  */
-function addArrayMethods<T>(target: T[], path: string[]): void {
-  const originalPush = Array.prototype.push as (...items: T[]) => number;
-  const originalSplice = Array.prototype.splice as (start: number, deleteCount?: number, ...items: T[]) => T[];
+interface ArrayMutation {
+  start: number;
+  removed: unknown[];
+  inserted: unknown[];
+}
 
-  // Override push
-  Object.defineProperty(target, 'push', {
-    value: function (...items: T[]) {
-      const currentPath = proxyPathMap.get(this) || path;
+/**
+ * Describe the difference between two versions of an array as one splice,
+ * trimming the common prefix and suffix. Returns null if nothing changed.
+ */
+function diffArrays(before: unknown[], after: unknown[]): ArrayMutation | null {
+  const minLength = Math.min(before.length, after.length);
 
-      const result = originalPush.apply(this, items);
+  let start = 0;
+  while (start < minLength && Object.is(before[start], after[start])) {
+    start++;
+  }
 
-      if (currentPath.length > 0) {
-        if (proxyConfig.trackPathUsage) {
-          pathUsageStats.modifiedPaths.add(currentPath.join('.'));
-        }
-        notifyListeners(currentPath);
-      }
+  if (start === before.length && start === after.length) {
+    return null;
+  }
 
-      return result;
+  let suffix = 0;
+  while (
+    suffix < minLength - start &&
+    Object.is(before[before.length - 1 - suffix], after[after.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+
+  return {
+    start,
+    removed: before.slice(start, before.length - suffix),
+    inserted: after.slice(start, after.length - suffix),
+  };
+}
+
+/**
+ * Run a native array mutator as a single logical mutation.
+ *
+ * The mutator runs on the raw array, so no set traps fire for the individual
+ * index writes. Afterwards the array path is notified once (with one change
+ * record for the whole operation), followed by only the indices that changed
+ * and `length` if it changed — all in a single batch.
+ */
+function mutateArray<R>(
+  array: unknown[],
+  fallbackPath: string[],
+  fallbackContext: ProxyContext,
+  op: 'push' | 'splice' | 'reset',
+  mutate: (raw: unknown[]) => R
+): R {
+  const raw = (proxyTargetMap.get(array) as unknown[] | undefined) || array;
+  const currentPath = proxyPathMap.get(array) || fallbackPath;
+  const { listeners } = getProxyContext(array, fallbackContext);
+  const before = raw.slice();
+
+  recordArrayWrite(raw);
+
+  const result = mutate(raw);
+  const mutation = diffArrays(before, raw);
+
+  if (!mutation || currentPath.length === 0) {
+    return result;
+  }
+
+  if (proxyConfig.trackPathUsage) {
+    pathUsageStats.modifiedPaths.add(currentPath.join('.'));
+  }
+
+  let change: ChangeRecord | undefined;
+  if (shouldRecordChange(getProxyContext(array, fallbackContext))) {
+    change = op === 'reset'
+      ? createChangeRecord(currentPath, 'reset', before, raw)
+      : createChangeRecord([...currentPath, String(mutation.start)], op, mutation.removed, mutation.inserted);
+  }
+
+  // Items after the replaced range only move when the length changed
+  const end = mutation.removed.length === mutation.inserted.length
+    ? mutation.start + mutation.removed.length
+    : Math.max(before.length, raw.length);
+
+  batch(() => {
+    notifyListeners(currentPath, change, false, listeners);
+
+    for (let i = mutation.start; i < end; i++) {
+      notifyListeners([...currentPath, String(i)], undefined, true, listeners);
+    }
+
+    if (before.length !== raw.length) {
+      notifyListeners([...currentPath, 'length'], undefined, true, listeners);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Add custom methods to array targets
+ */
+function addArrayMethods<T>(target: T[], path: string[], context: ProxyContext): void {
+  const arrayProto = Array.prototype as any;
+
+  // Wrap every native mutator so it notifies once, for the affected range only
+  const mutators: Record<string, (this: T[], ...args: any[]) => unknown> = {
+    push(...items: T[]) {
+      return mutateArray(this, path, context, 'push', raw => arrayProto.push.apply(raw, items));
     },
-    writable: true,
-    configurable: true
+    pop() {
+      return mutateArray(this, path, context, 'splice', raw => arrayProto.pop.call(raw));
+    },
+    shift() {
+      return mutateArray(this, path, context, 'splice', raw => arrayProto.shift.call(raw));
+    },
+    unshift(...items: T[]) {
+      return mutateArray(this, path, context, 'splice', raw => arrayProto.unshift.apply(raw, items));
+    },
+    splice(...args: any[]) {
+      return mutateArray(this, path, context, 'splice', raw => arrayProto.splice.apply(raw, args));
+    },
+    sort(compareFn?: (a: T, b: T) => number) {
+      mutateArray(this, path, context, 'splice', raw => arrayProto.sort.call(raw, compareFn));
+      return this;
+    },
+    reverse() {
+      mutateArray(this, path, context, 'splice', raw => arrayProto.reverse.call(raw));
+      return this;
+    },
+    fill(...args: any[]) {
+      mutateArray(this, path, context, 'splice', raw => arrayProto.fill.apply(raw, args));
+      return this;
+    },
+    copyWithin(...args: any[]) {
+      mutateArray(this, path, context, 'splice', raw => arrayProto.copyWithin.apply(raw, args));
+      return this;
+    },
+  };
+
+  Object.keys(mutators).forEach(name => {
+    Object.defineProperty(target, name, {
+      value: mutators[name],
+      writable: true,
+      configurable: true
+    });
   });
 
   // Override find with smart tracking during dependency collection
@@ -546,6 +843,7 @@ function addArrayMethods<T>(target: T[], path: string[]): void {
       }
 
       const currentPath = proxyPathMap.get(this) || path;
+      const { listeners } = getProxyContext(this, context);
       const length = skipTracking(() => this.length);
 
       for (let i = 0; i < length; i++) {
@@ -556,7 +854,7 @@ function addArrayMethods<T>(target: T[], path: string[]): void {
         );
 
         if (matched) {
-          addTrackedPaths([[...currentPath, String(i)].join('.')]);
+          addTrackedPaths([{ registry: listeners, path: [...currentPath, String(i)].join('.') }]);
           addTrackedPaths(paths);
           return element;
         }
@@ -568,34 +866,6 @@ function addArrayMethods<T>(target: T[], path: string[]): void {
     configurable: true
   });
 
-  // Override splice
-  Object.defineProperty(target, 'splice', {
-    value: function (start: number, deleteCount?: number, ...items: T[]) {
-      const currentPath = proxyPathMap.get(this) || path;
-      const arrayLength = this.length;
-
-      const actualDeleteCount = deleteCount === undefined ? (arrayLength - start) : deleteCount;
-      const result = originalSplice.apply(this, [start, actualDeleteCount, ...items]);
-
-      if (currentPath.length > 0) {
-        if (proxyConfig.trackPathUsage) {
-          pathUsageStats.modifiedPaths.add(currentPath.join('.'));
-        }
-
-        notifyListeners(currentPath);
-
-        for (let i = start; i < arrayLength; i++) {
-          const indexPath = [...currentPath, i.toString()];
-          notifyListeners(indexPath);
-        }
-      }
-
-      return result;
-    },
-    writable: true,
-    configurable: true
-  });
-
   // Add $set method for arrays
   if (!('$set' in target)) {
     Object.defineProperty(target, '$set', {
@@ -605,17 +875,10 @@ function addArrayMethods<T>(target: T[], path: string[]): void {
           return this;
         }
 
-        const currentPath = proxyPathMap.get(this) || path;
-        this.length = 0;
-
-        originalPush.apply(this, newArray);
-
-        if (currentPath.length > 0) {
-          if (proxyConfig.trackPathUsage) {
-            pathUsageStats.modifiedPaths.add(currentPath.join('.'));
-          }
-          notifyListeners(currentPath);
-        }
+        mutateArray(this, path, context, 'splice', raw => {
+          raw.length = 0;
+          arrayProto.push.apply(raw, newArray);
+        });
 
         return this;
       },
@@ -630,7 +893,7 @@ function addArrayMethods<T>(target: T[], path: string[]): void {
       value: function () {
         const currentPath = proxyPathMap.get(this) || path;
 
-        let initialValue: any = initialStoreState;
+        let initialValue: any = getProxyContext(this, context).initialState;
         for (const segment of currentPath) {
           if (initialValue && typeof initialValue === 'object' && segment in initialValue) {
             initialValue = initialValue[segment];
@@ -644,15 +907,13 @@ function addArrayMethods<T>(target: T[], path: string[]): void {
           initialValue = [];
         }
 
-        this.length = 0;
-
-        if (initialValue.length > 0) {
-          originalPush.apply(this, JSON.parse(JSON.stringify(initialValue)));
-        }
+        mutateArray(this, path, context, 'reset', raw => {
+          raw.length = 0;
 
-        if (currentPath.length > 0) {
-          notifyListeners(currentPath);
-        }
+          if (initialValue.length > 0) {
+            arrayProto.push.apply(raw, deepClone(initialValue));
+          }
+        });
 
         return this;
       },
@@ -661,11 +922,23 @@ function addArrayMethods<T>(target: T[], path: string[]): void {
     });
   }
 
+  // Add $patches method for arrays
+  if (!('$patches' in target)) {
+    Object.defineProperty(target, '$patches', {
+      value: function (recipe: (draft: T[]) => void) {
+        const currentPath = proxyPathMap.get(this) || path;
+        return generatePatches(() => recipe(this as any), currentPath, this);
+      },
+      enumerable: false,
+      configurable: true
+    });
+  }
+
   // Add raw method
   if (!('raw' in target)) {
     Object.defineProperty(target, 'raw', {
       value: function () {
-        return JSON.parse(JSON.stringify(this));
+        return deepClone(this);
       },
       enumerable: false,
       configurable: true
@@ -673,15 +946,226 @@ function addArrayMethods<T>(target: T[], path: string[]): void {
   }
 }
 
+type Collection = Map<unknown, unknown> | Set<unknown>;
+
+/**
+ * Check if a value is a built-in object that can't be proxied
+ */
+function isOpaqueObject(value: object): boolean {
+  return value instanceof WeakMap ||
+    value instanceof WeakSet ||
+    value instanceof Date ||
+    value instanceof RegExp ||
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value);
+}
+
+/**
+ * Check if a value is a Map or Set (proxied as a reactive collection)
+ */
+function isCollection(value: object): value is Collection {
+  return value instanceof Map || value instanceof Set;
+}
+
+// Stable path segments for object keys and Set members, which String() would
+// all turn into "[object Object]"
+const objectKeyIds = new WeakMap<object, number>();
+let nextObjectKeyId = 0;
+
+/**
+ * Path segment of a Map key or Set member: `String(key)` for primitives, and a
+ * per-identity `[object #n]` for objects, so members stay distinguishable
+ */
+function getKeySegment(key: unknown): string {
+  if ((typeof key !== 'object' && typeof key !== 'function') || key === null) {
+    return String(key);
+  }
+
+  let id = objectKeyIds.get(key);
+  if (id === undefined) {
+    id = ++nextObjectKeyId;
+    objectKeyIds.set(key, id);
+  }
+  return `[object #${id}]`;
+}
+
+/**
+ * Create the proxy handler for a Map or Set.
+ *
+ * Collection methods must run against the raw instance (they throw on a proxy
+ * receiver), so the handler returns instrumented versions of them:
+ * - `get(key)` / `has(key)` track `path.key`, so readers of one key are not
+ *   re-rendered when another key changes
+ * - `size` and iteration track the collection path itself
+ * - `set`, `add`, `delete` and `clear` notify `path.key` for each affected key
+ *
+ * Keys are converted with `getKeySegment()` to build paths. Objects stored as
+ * Map values are proxied; Set members are returned as-is so identity checks work.
+ */
+function createCollectionHandler(
+  target: Collection,
+  path: string[],
+  depth: number,
+  context: ProxyContext
+): ProxyHandler<Collection> {
+  const { listeners } = context;
+  const isMap = target instanceof Map;
+  const keyPath = (key: unknown) => [...path, getKeySegment(key)];
+
+  const wrapValue = (key: unknown, value: unknown) => {
+    if (isMap && value && typeof value === 'object' && path.length < proxyConfig.maxDepth) {
+      return createAdvancedProxy(value as object, keyPath(key), depth + 1, context);
+    }
+    return value;
+  };
+
+  const markModified = (propPath: string[]) => {
+    if (proxyConfig.trackPathUsage) {
+      pathUsageStats.modifiedPaths.add(propPath.join('.'));
+    }
+  };
+
+  // Iteration depends on every entry, so it tracks the collection path
+  function* iterateEntries(): IterableIterator<[unknown, unknown]> {
+    trackPathAccess(path, listeners);
+    for (const [key, value] of target.entries()) {
+      yield [key, wrapValue(key, value)];
+    }
+  }
+
+  const methods: Record<PropertyKey, (this: any, ...args: any[]) => unknown> = {
+    has(key: unknown) {
+      trackPathAccess(keyPath(key), listeners);
+      return target.has(key);
+    },
+
+    delete(key: unknown) {
+      if (!target.has(key)) return false;
+
+      const propPath = keyPath(key);
+      markModified(propPath);
+
+      const oldValue = isMap ? (target as Map<unknown, unknown>).get(key) : key;
+      const change = shouldRecordChange(context)
+        ? createChangeRecord(propPath, 'delete', oldValue, undefined)
+        : undefined;
+
+      recordCollectionWrite(target, key);
+      target.delete(key);
+      notifyListeners(propPath, change, true, listeners);
+      return true;
+    },
+
+    clear() {
+      if (target.size === 0) return;
+
+      const keys = Array.from(target.keys());
+      batch(() => {
+        keys.forEach(key => methods.delete.call(this, key));
+      });
+    },
+
+    forEach(callback: (value: unknown, key: unknown, collection: unknown) => void, thisArg?: unknown) {
+      for (const [key, value] of iterateEntries()) {
+        callback.call(thisArg, value, key, this);
+      }
+    },
+
+    *keys() {
+      for (const [key] of iterateEntries()) {
+        yield key;
+      }
+    },
+
+    *values() {
+      for (const [, value] of iterateEntries()) {
+        yield value;
+      }
+    },
+
+    entries() {
+      return iterateEntries();
+    },
+
+    [Symbol.iterator]() {
+      return isMap ? iterateEntries() : methods.values.call(this);
+    },
+
+    raw() {
+      return deepClone(target);
+    },
+  };
+
+  if (isMap) {
+    const map = target as Map<unknown, unknown>;
+
+    methods.get = function (key: unknown) {
+      trackPathAccess(keyPath(key), listeners);
+      return wrapValue(key, map.get(key));
+    };
+
+    methods.set = function (key: unknown, value: unknown) {
+      const oldValue = map.get(key);
+      if (map.has(key) && Object.is(oldValue, value)) return this;
+
+      const propPath = keyPath(key);
+      markModified(propPath);
+
+      const change = shouldRecordChange(context)
+        ? createChangeRecord(propPath, 'set', oldValue, value, map.has(key))
+        : undefined;
+
+      recordCollectionWrite(map, key);
+      map.set(key, value);
+      notifyListeners(propPath, change, true, listeners);
+      return this;
+    };
+  } else {
+    const set = target as Set<unknown>;
+
+    methods.add = function (value: unknown) {
+      if (set.has(value)) return this;
+
+      const propPath = keyPath(value);
+      markModified(propPath);
+
+      const change = shouldRecordChange(context)
+        ? createChangeRecord(propPath, 'set', undefined, value, false)
+        : undefined;
+
+      recordCollectionWrite(set, value);
+      set.add(value);
+      notifyListeners(propPath, change, true, listeners);
+      return this;
+    };
+  }
+
+  return {
+    get(obj, prop) {
+      if (prop === 'size') {
+        trackPathAccess(path, listeners);
+        return obj.size;
+      }
+
+      if (Object.prototype.hasOwnProperty.call(methods, prop)) {
+        return methods[prop as any];
+      }
+
+      const value = Reflect.get(obj, prop, obj);
+      return typeof value === 'function' ? value.bind(obj) : value;
+    },
+  };
+}
+
 /**
  * Clear proxy cache
  */
-export function clearProxyCache(): void {
-  proxyCache = new WeakMap<object, any>();
-  proxyCacheLRU.clear();
-  proxyCacheStats.cacheHits = 0;
-  proxyCacheStats.cacheMisses = 0;
-  proxyCacheStats.activeCachedProxies = 0;
+export function clearProxyCache(context: ProxyContext = defaultProxyContext): void {
+  context.cache = new WeakMap<object, any>();
+  context.cacheLRU.clear();
+  context.cacheStats.cacheHits = 0;
+  context.cacheStats.cacheMisses = 0;
+  context.cacheStats.activeCachedProxies = 0;
 
   if (monitoringConfig.enabled) {
     console.log('🧹 Proxy cache cleared');
@@ -691,24 +1175,25 @@ export function clearProxyCache(): void {
 /**
  * Get proxy cache statistics
  */
-export function getProxyCacheStats() {
+export function getProxyCacheStats(context: ProxyContext = defaultProxyContext) {
+  const stats = context.cacheStats;
   return {
-    ...proxyCacheStats,
-    hitRatio: proxyCacheStats.cacheHits / (proxyCacheStats.cacheHits + proxyCacheStats.cacheMisses || 1),
-    estimatedCacheSize: proxyCacheLRU.size()
+    ...stats,
+    hitRatio: stats.cacheHits / (stats.cacheHits + stats.cacheMisses || 1),
+    estimatedCacheSize: context.cacheLRU.size()
   };
 }
 
 /**
  * Optimize memory usage
  */
-export function optimizeMemoryUsage(aggressive = false): any {
+export function optimizeMemoryUsage(aggressive = false, context: ProxyContext = defaultProxyContext): any {
   pathUsageStats.accessedPaths.clear();
   pathUsageStats.modifiedPaths.clear();
 
   const evictedCount = aggressive ?
-    proxyCacheLRU.evictPercentage(0.8) :
-    proxyCacheLRU.evictPercentage(0.4);
+    context.cacheLRU.evictPercentage(0.8) :
+    context.cacheLRU.evictPercentage(0.4);
 
   if (aggressive && typeof (global as any).gc === 'function') {
     try {
@@ -1,5 +1,6 @@
 import type { ScopeSnapshot } from '../types';
 import { proxyTargetMap } from './proxy';
+import { deepClone } from './clone';
 
 function isPlainObject(value: object): value is Record<string, unknown> {
   const prototype = Object.getPrototypeOf(value);
@@ -14,11 +15,29 @@ function unwrapProxyTarget<T>(value: T): T {
   return value;
 }
 
+function throwReadonly(): never {
+  throw new TypeError('Cannot modify a read-only snapshot');
+}
+
+/**
+ * Make a snapshot Map/Set immutable: its mutators throw and the instance is frozen.
+ */
+function freezeCollection<T extends Map<unknown, unknown> | Set<unknown>>(collection: T): T {
+  const mutators = collection instanceof Map ? ['set', 'delete', 'clear'] : ['add', 'delete', 'clear'];
+  mutators.forEach(name => {
+    Object.defineProperty(collection, name, { value: throwReadonly, enumerable: false });
+  });
+
+  return Object.freeze(collection);
+}
+
 /**
  * Create a read-only snapshot suitable for rendering.
  *
  * Snapshots are plain arrays/objects with no proxy methods, which makes them
  * safe for React Compiler memoization while keeping `$` as the mutable API.
+ * Maps and Sets are copied into frozen instances whose mutators throw; other
+ * non-plain objects (Dates, class instances...) are cloned with `deepClone()`.
  */
 export function createReadonlySnapshot<T>(
   value: T,
@@ -45,8 +64,32 @@ export function createReadonlySnapshot<T>(
     return snapshot as ScopeSnapshot<T>;
   }
 
+  if (source instanceof Map) {
+    const snapshot = new Map<unknown, unknown>();
+    seen.set(source, snapshot);
+
+    source.forEach((item, key) => {
+      snapshot.set(key, createReadonlySnapshot(item, seen));
+    });
+
+    return freezeCollection(snapshot) as unknown as ScopeSnapshot<T>;
+  }
+
+  if (source instanceof Set) {
+    const snapshot = new Set<unknown>();
+    seen.set(source, snapshot);
+
+    source.forEach(item => {
+      snapshot.add(createReadonlySnapshot(item, seen));
+    });
+
+    return freezeCollection(snapshot) as unknown as ScopeSnapshot<T>;
+  }
+
+  // Dates, RegExps, typed arrays and class instances are copied so the
+  // snapshot never aliases live store data
   if (!isPlainObject(source)) {
-    return source as ScopeSnapshot<T>;
+    return deepClone(source, seen) as ScopeSnapshot<T>;
   }
 
   const snapshot: Record<string, unknown> = {};
@@ -1,4 +1,5 @@
 import type { ScopeConfig } from '../types';
+import { deepClone } from './clone';
 
 // Default store structure - can be overridden via configuration
 const defaultStore = {
@@ -12,7 +13,7 @@ const defaultStore = {
 export let store = defaultStore;
 
 // Store a deep clone of the initial store state for use with $reset
-export let initialStoreState = JSON.parse(JSON.stringify(store));
+export let initialStoreState = deepClone(store);
 
 // Type for the current store - will be updated when configure is called
 export type CurrentStoreType = typeof store;
@@ -25,7 +26,7 @@ export function initializeStore<T extends Record<string, any>>(config: ScopeConf
   if (config.initialState) {
     // Update the actual store with the new state
     store = { ...config.initialState } as any;
-    initialStoreState = JSON.parse(JSON.stringify(store));
+    initialStoreState = deepClone(store);
 
     if (typeof window !== 'undefined') {
       console.log('🏪 Store initialized with custom state');
@@ -35,7 +36,7 @@ export function initializeStore<T extends Record<string, any>>(config: ScopeConf
   } else {
     // Use default store
     store = { ...defaultStore };
-    initialStoreState = JSON.parse(JSON.stringify(store));
+    initialStoreState = deepClone(store);
     return store as T extends Record<string, any> ? T : typeof defaultStore;
   }
 }
@@ -64,7 +65,7 @@ export function resetStore(): void {
   });
 
   // Restore initial state
-  Object.assign(store, JSON.parse(JSON.stringify(initialStoreState)));
+  Object.assign(store, deepClone(initialStoreState));
 
   if (typeof window !== 'undefined') {
     console.log('🔄 Store reset to initial state');
@@ -1,6 +1,6 @@
 import { proxyConfig } from '../config';
 import { createAdvancedProxy, clearProxyCache } from './proxy';
-import { trackDependencies, resetTracking } from './tracking';
+import { trackDependencies, resetTracking, getRevisionKey } from './tracking';
 
 function createStore<T extends object>(state: T) {
   resetTracking();
@@ -89,4 +89,28 @@ describe('trackDependencies', () => {
     expect(paths).toContain('guides.5.is_favorite');
     expect(paths.some(p => p.match(/guides\.\d+\.id\.\d+/))).toBe(false);
   });
+
+  it('restores the outer tracking state after a nested call', () => {
+    const $ = createStore({ user: { name: 'Alice' }, theme: 'dark' });
+
+    const { paths } = trackDependencies(() => {
+      const inner = trackDependencies(() => $.theme);
+      expect(inner.paths).toEqual(['theme']);
+      return $.user.name;
+    });
+
+    expect(paths).toContain('user.name');
+    expect(paths).not.toContain('theme');
+  });
+
+  it('changes the revision key when the store is written, even without subscribers', () => {
+    const $ = createStore({ user: { name: 'Alice' }, theme: 'dark' });
+    const { dependencies } = trackDependencies(() => $.user.name);
+    const before = getRevisionKey(dependencies);
+
+    expect(getRevisionKey(dependencies)).toBe(before);
+
+    $.theme = 'light';
+    expect(getRevisionKey(dependencies)).not.toBe(before);
+  });
 });
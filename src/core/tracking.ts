@@ -1,30 +1,62 @@
 import { proxyConfig } from '../config';
 import { selectorPaths, pathUsageStats } from './proxy';
+import { subscribe, defaultRegistry } from './listeners';
+import type { ListenerRegistry } from './listeners';
+import type { Listener } from '../types';
 
-// Unique full dotted paths accessed during selector execution
-let trackedPaths: Set<string> = new Set();
+/**
+ * A path read during tracking, together with the store it belongs to
+ */
+export interface Dependency {
+  registry: ListenerRegistry;
+  path: string;
+}
+
+// Unique full dotted paths accessed during selector execution, keyed by store and path
+let trackedPaths: Map<string, Dependency> = new Map();
 let isTracking = false;
 let skipTrackingDepth = 0;
 
+function dependencyKey(dependency: Dependency): string {
+  return `${dependency.registry.id}:${dependency.path}`;
+}
+
 /**
  * Track dependencies during selector execution - tracks full dotted paths
+ *
+ * Calls can be nested (e.g. a computed value evaluated inside a selector):
+ * the outer tracking state is saved and restored around the inner selector.
+ *
+ * `paths` lists the dotted paths read; `dependencies` also records which store
+ * each path belongs to, for selectors reading from several stores.
  */
-export function trackDependencies<T>(selector: () => T): { value: T, paths: string[] } {
+export function trackDependencies<T>(selector: () => T): {
+  value: T,
+  paths: string[],
+  dependencies: Dependency[]
+} {
+  const previousIsTracking = isTracking;
+  const previousTrackedPaths = trackedPaths;
+  const previousSkipDepth = skipTrackingDepth;
+
   isTracking = true;
-  trackedPaths = new Set();
+  trackedPaths = new Map();
   skipTrackingDepth = 0;
 
-  const value = selector();
-
-  isTracking = false;
-
-  const paths = Array.from(trackedPaths).filter(path =>
-    path && path.length < 500
-  );
+  try {
+    const value = selector();
 
-  trackedPaths = new Set();
+    const dependencies = Array.from(trackedPaths.values()).filter(({ path }) =>
+      path && path.length < 500
+    );
+    const paths = Array.from(new Set(dependencies.map(dependency => dependency.path)));
 
-  return { value, paths };
+    return { value, paths, dependencies };
+  } finally {
+    isTracking = previousIsTracking;
+    trackedPaths = previousTrackedPaths;
+    skipTrackingDepth = previousSkipDepth;
+  }
 }
 
 /**
@@ -50,15 +82,15 @@ export function skipTracking<T>(fn: () => T): T {
  * Run fn while capturing any newly tracked paths, then remove them from the main set.
  * Caller decides whether to re-add captured paths (e.g. on a matched find iteration).
  */
-export function capturePathsDuring<T>(fn: () => T): { value: T; paths: string[] } {
-  const snapshot = new Set(trackedPaths);
+export function capturePathsDuring<T>(fn: () => T): { value: T; paths: Dependency[] } {
+  const snapshot = new Set(trackedPaths.keys());
   const value = fn();
-  const newPaths: string[] = [];
+  const newPaths: Dependency[] = [];
 
-  trackedPaths.forEach(path => {
-    if (!snapshot.has(path)) {
-      newPaths.push(path);
-      trackedPaths.delete(path);
+  trackedPaths.forEach((dependency, key) => {
+    if (!snapshot.has(key)) {
+      newPaths.push(dependency);
+      trackedPaths.delete(key);
     }
   });
 
@@ -68,9 +100,45 @@ export function capturePathsDuring<T>(fn: () => T): { value: T; paths: string[]
 /**
  * Add paths to the active tracking set (used by smart array method overrides)
  */
-export function addTrackedPaths(paths: string[]): void {
+export function addTrackedPaths(dependencies: Dependency[]): void {
   if (!isTracking) return;
-  paths.forEach(path => trackedPaths.add(path));
+  dependencies.forEach(dependency => trackedPaths.set(dependencyKey(dependency), dependency));
+}
+
+/**
+ * Build a stable key for a dependency list, to detect when it changed
+ */
+export function getDependenciesKey(dependencies: Dependency[]): string {
+  return dependencies.map(dependencyKey).join(',');
+}
+
+/**
+ * Build a key from the revisions of the stores a dependency list reads from.
+ * The key changes whenever one of those stores changed.
+ */
+export function getRevisionKey(dependencies: Dependency[]): string {
+  const registries = new Set(dependencies.map(({ registry }) => registry));
+  return Array.from(registries, registry => `${registry.id}:${registry.revision}`).join(',');
+}
+
+/**
+ * Subscribe a listener to every dependency, each in its own store's registry
+ *
+ * @returns A function that removes all of the subscriptions
+ */
+export function subscribeToDependencies(
+  dependencies: Dependency[],
+  listener: Listener,
+  options: { priority?: boolean } = {}
+): () => void {
+  const unsubscribeFunctions = dependencies.map(({ registry, path }) => {
+    pathUsageStats.subscribedPaths.add(path);
+    return subscribe(path, listener, options, registry);
+  });
+
+  return () => {
+    unsubscribeFunctions.forEach(unsubscribe => unsubscribe());
+  };
 }
 
 /**
@@ -83,7 +151,7 @@ export function getTrackingState(): {
 } {
   return {
     isTracking,
-    trackedPaths: Array.from(trackedPaths),
+    trackedPaths: Array.from(trackedPaths.values(), dependency => dependency.path),
     skipDepth: skipTrackingDepth,
   };
 }
@@ -91,12 +159,12 @@ export function getTrackingState(): {
 /**
  * Add a full path to tracking during proxy get operations
  */
-export function trackPathAccess(path: string[]): void {
+export function trackPathAccess(path: string[], registry: ListenerRegistry = defaultRegistry): void {
   if (!isTracking || skipTrackingDepth > 0) return;
 
   if (path.length <= proxyConfig.maxPathLength) {
     const fullPath = path.join('.');
-    trackedPaths.add(fullPath);
+    trackedPaths.set(`${registry.id}:${fullPath}`, { registry, path: fullPath });
     pathUsageStats.accessedPaths.add(fullPath);
     selectorPaths.add(fullPath);
   }
@@ -117,6 +185,6 @@ export function trackPathModification(path: string[]): void {
  */
 export function resetTracking(): void {
   isTracking = false;
-  trackedPaths = new Set();
+  trackedPaths = new Map();
   skipTrackingDepth = 0;
 }
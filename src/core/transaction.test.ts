@@ -0,0 +1,179 @@
+import { createAdvancedProxy, clearProxyCache } from './proxy';
+import { subscribe, clearAllListeners, setOnStateChangeCallback, batch } from './listeners';
+import { transaction } from './transaction';
+import { monitoringConfig } from '../config';
+
+function createStore<T extends object>(state: T) {
+  clearProxyCache();
+  return createAdvancedProxy(state);
+}
+
+describe('transaction', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  beforeEach(() => {
+    clearAllListeners();
+    setOnStateChangeCallback(() => {});
+  });
+
+  it('commits writes and notifies once when the callback succeeds', () => {
+    const $ = createStore({ cart: { total: 0 }, order: { status: 'draft' } });
+    const listener = jest.fn();
+    subscribe('', listener);
+
+    transaction(() => {
+      $.cart.total = 42;
+      $.order.status = 'placed';
+    });
+
+    expect($.cart.total).toBe(42);
+    expect($.order.status).toBe('placed');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('reverts every write and notifies nothing when the callback throws', () => {
+    const $ = createStore({
+      cart: { items: ['apple', 'pear'], total: 10 },
+      user: { name: 'Alice', coupon: 'SAVE10' } as Record<string, any>,
+    });
+    const listener = jest.fn();
+    const changed: string[][] = [];
+    subscribe('', listener);
+    setOnStateChangeCallback(path => changed.push(path));
+
+    expect(() => transaction(() => {
+      $.cart.items.$set(['banana']);
+      $.cart.$merge({ total: 99 });
+      $.user.$delete('coupon');
+      $.user.$update('name', name => name.toUpperCase());
+      throw new Error('validation failed');
+    })).toThrow('validation failed');
+
+    expect($.cart.items.raw()).toEqual(['apple', 'pear']);
+    expect($.cart.total).toBe(10);
+    expect($.user.raw()).toEqual({ name: 'Alice', coupon: 'SAVE10' });
+    expect(listener).not.toHaveBeenCalled();
+    expect(changed).toEqual([]);
+  });
+
+  it('reverts only the failing nested transaction', () => {
+    const $ = createStore({ a: 1, b: 1 });
+
+    transaction(() => {
+      $.a = 2;
+      try {
+        transaction(() => {
+          $.b = 2;
+          throw new Error('inner');
+        });
+      } catch { /* ignore */ }
+    });
+
+    expect($.a).toBe(2);
+    expect($.b).toBe(1);
+  });
+
+  it('drops the notifications of a failing transaction nested in a committing one', () => {
+    const $ = createStore({ a: 1, b: 1 });
+    const listenerA = jest.fn();
+    const listenerB = jest.fn();
+    const changed: string[] = [];
+    subscribe('a', listenerA);
+    subscribe('b', listenerB);
+    setOnStateChangeCallback(path => changed.push(path.join('.')));
+
+    transaction(() => {
+      $.a = 2;
+      try {
+        transaction(() => {
+          $.b = 2;
+          throw new Error('inner');
+        });
+      } catch { /* ignore */ }
+    });
+
+    expect(listenerA).toHaveBeenCalledTimes(1);
+    expect(listenerB).not.toHaveBeenCalled();
+    expect(changed).toEqual(['a']);
+  });
+
+  it('drops the notifications of a failing transaction nested in batch()', () => {
+    const $ = createStore({ a: 1, b: 1 });
+    const listenerA = jest.fn();
+    const listenerB = jest.fn();
+    const changed: string[] = [];
+    subscribe('a', listenerA);
+    subscribe('b', listenerB);
+    setOnStateChangeCallback(path => changed.push(path.join('.')));
+
+    batch(() => {
+      $.a = 2;
+      try {
+        transaction(() => {
+          $.b = 2;
+          throw new Error('inner');
+        });
+      } catch { /* ignore */ }
+    });
+
+    expect($.b).toBe(1);
+    expect(listenerA).toHaveBeenCalledTimes(1);
+    expect(listenerB).not.toHaveBeenCalled();
+    expect(changed).toEqual(['a']);
+  });
+
+  it('rejects async callbacks and reverts their synchronous writes', () => {
+    const $ = createStore({ count: 0 });
+    const listener = jest.fn();
+    subscribe('count', listener);
+
+    expect(() => transaction(async () => {
+      $.count = 5;
+    })).toThrow(TypeError);
+
+    expect($.count).toBe(0);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('keeps overlapping async flows that await before their transactions apart', async () => {
+    const $ = createStore({ a: 0, b: 0, other: 0 });
+    const listenerA = jest.fn();
+    const listenerB = jest.fn();
+    const listenerOther = jest.fn();
+    subscribe('a', listenerA);
+    subscribe('b', listenerB);
+    subscribe('other', listenerOther);
+
+    let resolveA!: () => void;
+    let resolveB!: () => void;
+    const flowA = (async () => {
+      await new Promise<void>(resolve => { resolveA = resolve; });
+      transaction(() => {
+        $.a = 1;
+        throw new Error('rejected');
+      });
+    })();
+    const flowB = (async () => {
+      await new Promise<void>(resolve => { resolveB = resolve; });
+      transaction(() => {
+        $.b = 1;
+      });
+    })();
+
+    // Nothing is held back while the flows are pending
+    $.other = 1;
+    expect(listenerOther).toHaveBeenCalledTimes(1);
+
+    resolveB();
+    resolveA();
+    await expect(flowA).rejects.toThrow('rejected');
+    await flowB;
+
+    expect($.a).toBe(0);
+    expect($.b).toBe(1);
+    expect(listenerA).not.toHaveBeenCalled();
+    expect(listenerB).toHaveBeenCalledTimes(1);
+  });
+});
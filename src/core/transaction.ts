@@ -0,0 +1,176 @@
+import { beginBatch, endBatch } from './listeners';
+import type { PendingMark } from './listeners';
+
+/**
+ * A single raw write captured inside a transaction, holding what is needed to undo it.
+ */
+interface WriteRecord {
+  target: object;
+  /** Property name, or the key/member for Map and Set targets */
+  prop: unknown;
+  hadProperty: boolean;
+  value: unknown;
+}
+
+// Stack of write logs, one per open transaction. Writes are recorded into the
+// innermost log; a committed nested transaction hands its log to its parent so
+// an outer rollback still reverts it.
+const transactionLogs: WriteRecord[][] = [];
+
+/**
+ * Check if a transaction is currently open
+ */
+export function isInTransaction(): boolean {
+  return transactionLogs.length > 0;
+}
+
+/**
+ * Record the current value of `target[prop]` before it is overwritten or deleted.
+ * Called by the proxy set/deleteProperty traps. No-op outside of a transaction.
+ *
+ * @param nextValue - The value about to be written. Used to capture array
+ *                    elements that are implicitly dropped when `length` shrinks.
+ */
+export function recordWrite(target: object, prop: PropertyKey, nextValue?: unknown): void {
+  if (transactionLogs.length === 0) return;
+
+  const log = transactionLogs[transactionLogs.length - 1];
+
+  if (Array.isArray(target) && prop === 'length' && typeof nextValue === 'number') {
+    for (let i = nextValue; i < target.length; i++) {
+      log.push({ target, prop: String(i), hadProperty: i in target, value: target[i] });
+    }
+  }
+
+  log.push({
+    target,
+    prop,
+    hadProperty: Object.prototype.hasOwnProperty.call(target, prop),
+    value: (target as any)[prop],
+  });
+}
+
+/**
+ * Record every index and the length of an array before an in-place mutation
+ * that bypasses the set trap (sort, reverse, splice...). No-op outside of a transaction.
+ */
+export function recordArrayWrite(target: unknown[]): void {
+  if (transactionLogs.length === 0) return;
+
+  const log = transactionLogs[transactionLogs.length - 1];
+
+  // Length first: rollback runs in reverse, so indices are restored before
+  // the length is truncated back
+  log.push({ target, prop: 'length', hadProperty: true, value: target.length });
+  for (let i = 0; i < target.length; i++) {
+    log.push({ target, prop: String(i), hadProperty: i in target, value: target[i] });
+  }
+}
+
+/**
+ * Record the current entry for `key` before a Map or Set is modified.
+ * Called by the reactive collection methods. No-op outside of a transaction.
+ */
+export function recordCollectionWrite(target: Map<unknown, unknown> | Set<unknown>, key: unknown): void {
+  if (transactionLogs.length === 0) return;
+
+  transactionLogs[transactionLogs.length - 1].push({
+    target,
+    prop: key,
+    hadProperty: target.has(key),
+    value: target instanceof Map ? target.get(key) : key,
+  });
+}
+
+/**
+ * Restore every recorded write in reverse order, directly on the raw targets
+ * so no traps (and therefore no notifications) fire.
+ */
+function rollback(log: WriteRecord[]): void {
+  for (let i = log.length - 1; i >= 0; i--) {
+    const { target, prop, hadProperty, value } = log[i];
+    if (target instanceof Map) {
+      if (hadProperty) {
+        target.set(prop, value);
+      } else {
+        target.delete(prop);
+      }
+    } else if (target instanceof Set) {
+      if (hadProperty) {
+        target.add(prop);
+      } else {
+        target.delete(prop);
+      }
+    } else if (hadProperty) {
+      Reflect.set(target, prop as PropertyKey, value);
+    } else {
+      Reflect.deleteProperty(target, prop as PropertyKey);
+    }
+  }
+}
+
+function finishTransaction(log: WriteRecord[], mark: PendingMark, committed: boolean): void {
+  const index = transactionLogs.lastIndexOf(log);
+  if (index !== -1) {
+    transactionLogs.splice(index, 1);
+  }
+
+  if (committed) {
+    if (transactionLogs.length > 0) {
+      transactionLogs[transactionLogs.length - 1].push(...log);
+    }
+  } else {
+    rollback(log);
+  }
+
+  endBatch(committed ? undefined : mark);
+}
+
+function isPromiseLike(value: any): value is PromiseLike<any> {
+  return value !== null && value !== undefined && typeof value.then === 'function';
+}
+
+/**
+ * Run a function atomically.
+ *
+ * Every write made through a store proxy inside the callback is applied
+ * immediately, but notifications are held back (like `batch()`). If the
+ * callback throws, all of those writes are reverted and no listeners or
+ * persistence writes fire. Otherwise the notifications are flushed once when
+ * the transaction ends.
+ *
+ * Transactions can be nested: a failing inner transaction only reverts its own
+ * writes, while a failing outer transaction reverts everything.
+ *
+ * The callback must be synchronous. Writes made after an `await` can't be told
+ * apart from other writes in the app, so an async callback is rolled back and
+ * rejected with a TypeError — await first, then run the writes in `transaction()`.
+ *
+ * @example
+ * transaction(() => {
+ *   $.cart.$set({ items: [] });
+ *   $.order.$merge({ status: 'placed' });
+ *   if (!$.user.address) throw new Error('Missing address'); // Everything is reverted
+ * });
+ */
+export function transaction<T>(fn: () => T): T {
+  const log: WriteRecord[] = [];
+  const mark = beginBatch();
+  transactionLogs.push(log);
+
+  let result: T;
+  try {
+    result = fn();
+  } catch (e) {
+    finishTransaction(log, mark, false);
+    throw e;
+  }
+
+  if (isPromiseLike(result)) {
+    finishTransaction(log, mark, false);
+    throw new TypeError('transaction() callbacks must be synchronous: await first, then run the writes in transaction()');
+  }
+
+  finishTransaction(log, mark, true);
+  return result;
+}
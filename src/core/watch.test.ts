@@ -0,0 +1,122 @@
+import { createAdvancedProxy, clearProxyCache } from './proxy';
+import { batch, clearAllListeners, setOnStateChangeCallback } from './listeners';
+import { monitorAPI } from './monitoring';
+import { watch } from './watch';
+import { monitoringConfig } from '../config';
+import type { MonitoringEvent } from '../types';
+
+function createStore<T extends object>(state: T) {
+  clearProxyCache();
+  return createAdvancedProxy(state);
+}
+
+describe('watch', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  beforeEach(() => {
+    clearAllListeners();
+    setOnStateChangeCallback(() => {});
+  });
+
+  it('calls back with the new and previous values', () => {
+    const $ = createStore({ theme: 'light', count: 0 });
+    const callback = jest.fn();
+    const stop = watch(() => $.theme, callback);
+
+    expect(callback).not.toHaveBeenCalled();
+
+    $.theme = 'dark';
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenLastCalledWith('dark', 'light');
+
+    $.count = 1;
+    expect(callback).toHaveBeenCalledTimes(1);
+    stop();
+  });
+
+  it('runs the callback right away with `immediate`', () => {
+    const $ = createStore({ theme: 'light' });
+    const callback = jest.fn();
+    const stop = watch(() => $.theme, callback, { immediate: true });
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenLastCalledWith('light', undefined);
+    stop();
+  });
+
+  it('passes snapshots so the previous value survives in-place mutation', () => {
+    const $ = createStore({ user: { name: 'Ada', tags: ['admin'] } });
+    const callback = jest.fn();
+    const stop = watch(() => $.user, callback);
+
+    $.user.tags.push('editor');
+    expect(callback).toHaveBeenCalledTimes(1);
+    const [next, prev] = callback.mock.calls[0];
+    expect(next.tags).toEqual(['admin', 'editor']);
+    expect(prev.tags).toEqual(['admin']);
+    stop();
+  });
+
+  it('compares deeply by default and by reference with a custom `equals`', () => {
+    const $ = createStore({ filters: { status: 'open' } });
+    const deep = jest.fn();
+    const shallow = jest.fn();
+    const stopDeep = watch(() => ({ ...$.filters }), deep);
+    const stopShallow = watch(() => ({ ...$.filters }), shallow, { equals: Object.is });
+
+    // Same content, new object
+    $.filters = { status: 'open' };
+    expect(deep).not.toHaveBeenCalled();
+    expect(shallow).toHaveBeenCalledTimes(1);
+
+    $.filters.status = 'closed';
+    expect(deep).toHaveBeenCalledTimes(1);
+    expect(deep).toHaveBeenLastCalledWith({ status: 'closed' }, { status: 'open' });
+    stopDeep();
+    stopShallow();
+  });
+
+  it('calls back once per batch', () => {
+    const $ = createStore({ a: 1, b: 2 });
+    const callback = jest.fn();
+    const stop = watch(() => $.a + $.b, callback);
+
+    batch(() => {
+      $.a = 10;
+      $.b = 20;
+    });
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenLastCalledWith(30, 3);
+    stop();
+  });
+
+  it('stops calling back after stop()', () => {
+    const $ = createStore({ count: 0 });
+    const callback = jest.fn();
+    const stop = watch(() => $.count, callback);
+
+    stop();
+    $.count = 1;
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('reports callback errors as monitoring events', () => {
+    const $ = createStore({ count: 0 });
+    const events: MonitoringEvent[] = [];
+    const stopEvents = monitorAPI.onEvent(event => events.push(event));
+    const error = new Error('boom');
+    const stop = watch(() => $.count, () => {
+      throw error;
+    });
+
+    expect(() => {
+      $.count = 1;
+    }).not.toThrow();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'watchError', error });
+    stop();
+    stopEvents();
+  });
+});
@@ -0,0 +1,101 @@
+import { trackDependencies, subscribeToDependencies, getDependenciesKey } from './tracking';
+import type { Dependency } from './tracking';
+import { createReadonlySnapshot } from './snapshot';
+import { deepEqual } from './equality';
+import { emitMonitoringEvent } from './monitoring';
+import { monitoringConfig } from '../config';
+import type { ScopeSnapshot, WatchOptions } from '../types';
+
+/**
+ * Watch a value selected from the store and run a side effect when it changes.
+ *
+ * The selector is tracked like a `useScope` selector: the watcher subscribes to
+ * exactly the paths it reads, and re-subscribes if those paths change. After a
+ * relevant notification the selector re-runs, and the callback fires only if
+ * the selected value is actually different (deep equality by default).
+ *
+ * Objects and arrays are passed to the callback as read-only snapshots, so the
+ * previous value is preserved even when the store is mutated in place.
+ *
+ * Errors thrown by the callback are reported as `watchError` events to
+ * `monitorAPI.onEvent()` listeners (and logged when monitoring is enabled).
+ *
+ * Works anywhere — no React required.
+ *
+ * @example
+ * const stop = watch(
+ *   () => $.user.preferences.theme,
+ *   (theme, previousTheme) => {
+ *     document.body.classList.remove(previousTheme);
+ *     document.body.classList.add(theme);
+ *   },
+ *   { immediate: true }
+ * );
+ *
+ * // Later
+ * stop();
+ *
+ * @param selector - Function that returns the data to watch
+ * @param callback - Called with the new and previous values
+ * @param options - `immediate` to run the callback right away, `equals` to customize comparison
+ * @returns A function that stops watching
+ */
+export function watch<T>(
+  selector: () => T,
+  callback: (next: ScopeSnapshot<T>, prev: ScopeSnapshot<T> | undefined) => void,
+  options: WatchOptions<ScopeSnapshot<T>> = {}
+): () => void {
+  const equals = options.equals || deepEqual;
+
+  let currentValue: ScopeSnapshot<T>;
+  let dependencies: Dependency[] = [];
+  let unsubscribeAll = () => {};
+  let isStopped = false;
+
+  const run = (): ScopeSnapshot<T> => {
+    const { value, dependencies: nextDependencies } = trackDependencies(selector);
+
+    if (getDependenciesKey(nextDependencies) !== getDependenciesKey(dependencies)) {
+      unsubscribeAll();
+      dependencies = nextDependencies;
+      unsubscribeAll = subscribeToDependencies(dependencies, handleChange);
+    }
+
+    return createReadonlySnapshot(value);
+  };
+
+  function handleChange() {
+    if (isStopped) return;
+
+    const previousValue = currentValue;
+    const nextValue = run();
+
+    if (equals(nextValue, previousValue)) return;
+
+    currentValue = nextValue;
+    invoke(nextValue, previousValue);
+  }
+
+  // A throwing callback must not break the notification of other listeners
+  function invoke(next: ScopeSnapshot<T>, prev: ScopeSnapshot<T> | undefined) {
+    try {
+      callback(next, prev);
+    } catch (error) {
+      if (monitoringConfig.enabled) {
+        console.error('Error in watch callback:', error);
+      }
+      emitMonitoringEvent({ type: 'watchError', error, timestamp: Date.now() });
+    }
+  }
+
+  currentValue = run();
+
+  if (options.immediate) {
+    invoke(currentValue, undefined);
+  }
+
+  return () => {
+    isStopped = true;
+    unsubscribeAll();
+  };
+}
@@ -0,0 +1,73 @@
+import { createStore } from './createStore';
+import { createMemoryAdapter } from './persistence/adapters';
+import { unwrapEnvelope } from './persistence/envelope';
+import { monitoringConfig } from './config';
+
+describe('createStore', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  it('keeps listeners, initial state and stats separate per store', () => {
+    const a = createStore({ initialState: { count: 0 }, persistence: { enabled: false } });
+    const b = createStore({ initialState: { count: 10 }, persistence: { enabled: false } });
+    const listenerA = jest.fn();
+    const listenerB = jest.fn();
+    a.subscribe('count', listenerA);
+    b.subscribe('count', listenerB);
+
+    a.$.count = 1;
+    expect(listenerA).toHaveBeenCalledTimes(1);
+    expect(listenerB).not.toHaveBeenCalled();
+    expect(b.$.count).toBe(10);
+
+    b.$.count = 11;
+    b.$.$reset();
+    expect(b.$.count).toBe(10);
+    expect(a.$.count).toBe(1);
+
+    expect(a.getStats().activePaths).toEqual(['count']);
+    expect(a.getStats().listenerCount).toBe(1);
+
+    a.destroy();
+    b.destroy();
+  });
+
+  it('persists each store under its own namespace', () => {
+    const adapter = createMemoryAdapter();
+    adapter.setItem('cart:persisted_state_items', JSON.stringify(['apple']));
+
+    const cart = createStore({
+      initialState: { items: [] as string[] },
+      persistence: { namespace: 'cart', storageAdapter: adapter },
+    });
+    const wishlist = createStore({
+      initialState: { items: [] as string[] },
+      persistence: { namespace: 'wishlist', storageAdapter: adapter },
+    });
+
+    expect(cart.$.items.raw()).toEqual(['apple']);
+    expect(wishlist.$.items.raw()).toEqual([]);
+
+    wishlist.$.items.push('pear');
+    wishlist.persistence.flushBatch();
+
+    expect(unwrapEnvelope(adapter.getItem('wishlist:persisted_state_items') as string).data).toEqual(['pear']);
+    expect(adapter.getItem('cart:persisted_state_items')).toBe(JSON.stringify(['apple']));
+
+    cart.destroy();
+    wishlist.destroy();
+  });
+
+  it('queues no persistence writes in Node without a storage adapter', async () => {
+    jest.useFakeTimers();
+    const store = createStore({ initialState: { count: 0 }, persistence: { namespace: 'server' } });
+    await store.persistence.rehydrate();
+
+    store.$.count = 1;
+    expect(jest.getTimerCount()).toBe(0);
+
+    store.destroy();
+    jest.useRealTimers();
+  });
+});
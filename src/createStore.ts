@@ -0,0 +1,208 @@
+import { createListenerRegistry, subscribe, onChange, getListenerCount, getActivePaths, clearAllListeners } from './core/listeners';
+import { createAdvancedProxy, createProxyContext, setInitialStoreState, getProxyCacheStats } from './core/proxy';
+import type { ProxyContext } from './core/proxy';
+import { defaultPersistenceConfig, monitoringConfig } from './config';
+import {
+  addToPersistenceBatch,
+  createPersistenceAPI,
+  createPersistenceContext,
+  hydrateState,
+  initializePersistence,
+  mergePersistedIntoState,
+  setGlobalProxyRef,
+  setGlobalStoreRef,
+  startAutoFlush,
+  startTabSync,
+} from './persistence/advanced';
+import type { PersistenceContext } from './persistence/advanced';
+import type { CreateStoreConfig, ScopeStore, StoreType } from './types';
+
+// Counter for default persistence namespaces ('scope1', 'scope2'...)
+let storeCount = 0;
+
+// Connect/disconnect of each built store's persistence wiring
+const storeConnections = new WeakMap<ScopeStore<any>, { connect: () => void; disconnect: () => void }>();
+
+/**
+ * Build a store on the given proxy and persistence contexts.
+ * Shared by `createStore()` and `configure()` (which uses the default contexts).
+ *
+ * @internal
+ */
+export function buildStore<T extends Record<string, any>>(
+  initialState: T | undefined,
+  proxyContext: ProxyContext,
+  persistenceContext: PersistenceContext
+): ScopeStore<T> {
+  const registry = proxyContext.listeners;
+  const persistenceConfig = persistenceContext.config;
+
+  // ─── Build the store state ───────────────────────────────────────────
+  // For synchronous adapters (localStorage, memory), merge persisted data
+  // into the initial state BEFORE creating the proxy. This way the proxy
+  // wraps the already-correct data and React renders persisted values on
+  // the very first render — no flash of defaults, no re-renders.
+  const shouldAutoHydrate = persistenceConfig.enabled && persistenceConfig.autoHydrate !== false;
+  let rawStore: Record<string, any> = { ...initialState };
+  let syncMerged = false;
+
+  if (shouldAutoHydrate && initialState) {
+    const merged = mergePersistedIntoState(initialState, persistenceContext);
+    if (merged) {
+      rawStore = merged;
+      syncMerged = true;
+    }
+  }
+
+  // Store original defaults for $reset() (always the un-merged defaults)
+  setInitialStoreState(initialState || rawStore, proxyContext);
+
+  // Store raw store ref (used for serialization during persistence)
+  setGlobalStoreRef(rawStore, persistenceContext);
+
+  // Create and cache the advanced proxy
+  const proxy = createAdvancedProxy(rawStore, [], 0, proxyContext);
+
+  // Store proxy ref (used for writes during hydration so set traps fire)
+  setGlobalProxyRef(proxy, persistenceContext);
+
+  // Everything the store runs besides its listeners: state changes batched
+  // for persistence in this store's namespace, tab sync and auto-flush.
+  // Disconnecting keeps the listeners, so the store can be connected again.
+  let disconnect: (() => void) | null = null;
+  const connect = () => {
+    if (disconnect) return;
+
+    registry.onStateChange = (path: string[]) => {
+      addToPersistenceBatch(path, persistenceContext);
+    };
+    const stopTabSync = persistenceConfig.syncTabs ? startTabSync(persistenceContext) : () => {};
+    const stopAutoFlush = persistenceConfig.autoFlush !== false ? startAutoFlush(persistenceContext) : () => {};
+
+    disconnect = () => {
+      disconnect = null;
+      registry.onStateChange = null;
+      stopTabSync();
+      stopAutoFlush();
+
+      if (persistenceContext.batch.timeoutId) {
+        clearTimeout(persistenceContext.batch.timeoutId);
+        persistenceContext.batch.timeoutId = null;
+      }
+      persistenceContext.failures.retryTimeouts.forEach(timeoutId => clearTimeout(timeoutId));
+      persistenceContext.failures.retryTimeouts.clear();
+    };
+  };
+  connect();
+
+  // ─── Persistence setup ───────────────────────────────────────────────
+  if (persistenceConfig.enabled) {
+    initializePersistence(shouldAutoHydrate, persistenceContext);
+
+    // If sync merge didn't work (async adapter), fall back to async hydration
+    if (shouldAutoHydrate && !syncMerged) {
+      hydrateState(proxy, persistenceContext).then((success) => {
+        if (success && typeof window !== 'undefined' && monitoringConfig.enabled) {
+          console.log('🔄 State hydrated from persistence (async)');
+        }
+      });
+    }
+  }
+
+  const store: ScopeStore<T> = {
+    $: proxy as StoreType<T>,
+    subscribe: (path, listener) => subscribe(path, listener, {}, registry),
+    onChange: listener => onChange(listener, registry),
+    persistence: createPersistenceAPI(persistenceContext),
+    getStats: () => ({
+      monitoring: registry.stats,
+      proxyCache: getProxyCacheStats(proxyContext),
+      listenerCount: getListenerCount(registry),
+      activePaths: getActivePaths(registry),
+    }),
+    destroy: () => {
+      clearAllListeners(registry);
+      registry.changeListeners.clear();
+      registry.changeSetListeners.clear();
+      if (disconnect) disconnect();
+      persistenceContext.batch.roots.clear();
+    },
+  };
+
+  storeConnections.set(store, {
+    connect,
+    disconnect: () => {
+      if (disconnect) disconnect();
+    },
+  });
+
+  return store;
+}
+
+/**
+ * Stop a store's persistence wiring (tab sync, auto-flush, pending timers)
+ * without removing its listeners. Pending roots stay queued.
+ *
+ * @internal
+ */
+export function disconnectStore(store: ScopeStore<any>): void {
+  storeConnections.get(store)?.disconnect();
+}
+
+/**
+ * Restart the persistence wiring of a disconnected or destroyed store.
+ * Listeners removed by `destroy()` are not restored.
+ *
+ * @internal
+ */
+export function reconnectStore(store: ScopeStore<any>): void {
+  storeConnections.get(store)?.connect();
+}
+
+/**
+ * Create an independent store instance.
+ *
+ * Each store has its own listeners, proxy cache, initial state (for `$reset()`),
+ * persistence namespace and monitoring stats, so several stores — e.g. one
+ * per micro-frontend — can live side by side with the default `$` store.
+ * Hooks and helpers (`useScope`, `computed`, `watch`, `createHistory`...) work
+ * with any store's proxy.
+ *
+ * @example
+ * const cart = createStore({
+ *   initialState: { items: [] as string[] },
+ *   persistence: { namespace: 'cart' },
+ * });
+ *
+ * cart.$.items.push('apple');
+ * cart.subscribe('items', () => console.log('cart changed'));
+ *
+ * @param config - Initial state and persistence settings. Persistence keys are
+ *   prefixed with `persistence.namespace` — set it explicitly when persisting.
+ */
+export function createStore<T extends Record<string, any>>(
+  config: CreateStoreConfig<T> = {}
+): ScopeStore<T> {
+  storeCount++;
+
+  const persistenceConfig = {
+    ...defaultPersistenceConfig,
+    ...config.persistence,
+  };
+  const namespace = persistenceConfig.namespace || `scope${storeCount}`;
+
+  const proxyContext = createProxyContext(createListenerRegistry());
+  const persistenceContext = createPersistenceContext(
+    persistenceConfig,
+    namespace,
+    persistenceConfig.storageAdapter || null
+  );
+
+  const store = buildStore(config.initialState, proxyContext, persistenceContext);
+
+  if (typeof window !== 'undefined' && monitoringConfig.enabled) {
+    console.log(`🏪 Store "${namespace}" created`);
+  }
+
+  return store;
+}
@@ -0,0 +1,141 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createElement, StrictMode } from 'react';
+import { act, render } from '@testing-library/react';
+import { ScopeProvider, useScopeStore, useStore } from './ScopeProvider';
+import { createStore } from '../createStore';
+import { shallowEqual } from '../core/equality';
+import { createMemoryAdapter } from '../persistence/adapters';
+import { unwrapEnvelope } from '../persistence/envelope';
+import { monitoringConfig } from '../config';
+import type { ScopeStore } from '../types';
+
+type CounterState = { count: number };
+
+describe('ScopeProvider', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  it('gives each provider its own store and re-renders on changes', () => {
+    const stores: ScopeStore<CounterState>[] = [];
+    let renders = 0;
+
+    function Counter() {
+      stores.push(useStore<CounterState>());
+      renders++;
+      return createElement('span', null, useScopeStore<CounterState, number>($ => $.count));
+    }
+
+    const { container, unmount } = render(createElement('div', null,
+      createElement(ScopeProvider, { initialState: { count: 1 } }, createElement(Counter)),
+      createElement(ScopeProvider, { initialState: { count: 10 } }, createElement(Counter))
+    ));
+    const spans = () => Array.from(container.querySelectorAll('span')).map(span => span.textContent);
+    const [first, second] = stores;
+    expect(first).not.toBe(second);
+    expect(spans()).toEqual(['1', '10']);
+
+    const rendersBefore = renders;
+    act(() => {
+      first.$.count = 2;
+    });
+    expect(spans()).toEqual(['2', '10']);
+    expect(renders).toBe(rendersBefore + 1);
+    expect(second.$.count).toBe(10);
+
+    unmount();
+  });
+
+  it('passes `equals` through to useScope()', () => {
+    type TodoState = { todos: { id: number; done: boolean }[] };
+    let store!: ScopeStore<TodoState>;
+    let renders = 0;
+
+    function TodoIds() {
+      store = useStore<TodoState>();
+      renders++;
+      const ids = useScopeStore<TodoState, number[]>($ => $.todos.map(todo => todo.id), { equals: shallowEqual });
+      return createElement('span', null, ids.join(','));
+    }
+
+    const { container, unmount } = render(createElement(ScopeProvider, {
+      initialState: { todos: [{ id: 1, done: false }] },
+    }, createElement(TodoIds)));
+
+    // Same ids, but a new array
+    act(() => {
+      store.$.todos[0].done = true;
+    });
+    expect(renders).toBe(1);
+
+    act(() => {
+      store.$.todos.push({ id: 2, done: false });
+    });
+    expect(renders).toBe(2);
+    expect(container.textContent).toBe('1,2');
+
+    unmount();
+  });
+
+  it('throws when useStore() is used outside of a provider', () => {
+    // React logs the render error before rethrowing it
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    function Orphan() {
+      useStore();
+      return null;
+    }
+
+    expect(() => render(createElement(Orphan))).toThrow('must be used inside a <ScopeProvider>');
+    consoleError.mockRestore();
+  });
+
+  it('destroys the store it created on unmount, but not a provided one', () => {
+    const owned: ScopeStore<CounterState>[] = [];
+    function Capture() {
+      owned.push(useStore<CounterState>());
+      return null;
+    }
+
+    const { unmount } = render(createElement(ScopeProvider, { initialState: { count: 0 } }, createElement(Capture)));
+    const destroy = jest.spyOn(owned[0], 'destroy');
+    unmount();
+    expect(destroy).toHaveBeenCalledTimes(1);
+
+    const provided = createStore<CounterState>({ initialState: { count: 0 }, persistence: { enabled: false } });
+    const providedDestroy = jest.spyOn(provided, 'destroy');
+    const providedRender = render(createElement(ScopeProvider, { store: provided }, createElement(Capture)));
+    providedRender.unmount();
+    expect(providedDestroy).not.toHaveBeenCalled();
+    provided.destroy();
+  });
+
+  it('keeps updating and persisting under StrictMode', () => {
+    const adapter = createMemoryAdapter();
+    let store!: ScopeStore<CounterState>;
+
+    function Counter() {
+      store = useStore<CounterState>();
+      return createElement('span', null, useScopeStore<CounterState, number>($ => $.count));
+    }
+
+    // StrictMode runs the provider's effect cleanup once before the real mount
+    const { container, unmount } = render(createElement(StrictMode, null,
+      createElement(ScopeProvider, {
+        initialState: { count: 0 },
+        persistence: { enabled: true, namespace: 'strict', storageAdapter: adapter },
+      }, createElement(Counter))
+    ));
+
+    act(() => {
+      store.$.count = 3;
+    });
+    expect(container.textContent).toBe('3');
+
+    store.persistence.flushBatch();
+    expect(unwrapEnvelope(adapter.getItem('strict:persisted_state_count') as string).data).toBe(3);
+
+    unmount();
+  });
+});
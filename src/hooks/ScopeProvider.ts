@@ -0,0 +1,102 @@
+import { createContext, createElement, useContext, useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { createStore, reconnectStore } from '../createStore';
+import { useScope } from './useScope';
+import type { PersistenceConfig, ScopeSnapshot, ScopeStore, StoreType, UseScopeOptions } from '../types';
+
+// The store provided to the subtree, or null outside of a <ScopeProvider>
+const ScopeContext = createContext<ScopeStore<any> | null>(null);
+
+export interface ScopeProviderProps<T extends Record<string, any>> {
+  /** Initial state of the subtree's store. Read once, on first render. */
+  initialState?: T;
+  /**
+   * Persistence settings of the subtree's store. Persistence is disabled by
+   * default, so tests, stories and server requests never touch storage.
+   */
+  persistence?: Partial<PersistenceConfig>;
+  /** Provide an existing store (from `createStore()`) instead of creating one */
+  store?: ScopeStore<T>;
+  children?: ReactNode;
+}
+
+/**
+ * Provide an isolated store to a component subtree.
+ *
+ * Every provider creates its own store (listeners, proxy cache, `$reset()`
+ * defaults), so tests, Storybook stories and server-rendered requests can each
+ * render with their own state. Read it with `useScopeStore()` and `useStore()`.
+ * The store is destroyed when the provider unmounts, unless it was passed in
+ * with `store`.
+ *
+ * @example
+ * <ScopeProvider initialState={{ user: { name: 'Ann' } }}>
+ *   <Profile />
+ * </ScopeProvider>
+ *
+ * function Profile() {
+ *   const name = useScopeStore(($) => $.user.name);
+ *   const { $ } = useStore<{ user: { name: string } }>();
+ *   return <input value={name} onChange={(e) => { $.user.name = e.target.value; }} />;
+ * }
+ */
+export function ScopeProvider<T extends Record<string, any>>(props: ScopeProviderProps<T>) {
+  const { initialState, persistence, store: providedStore, children } = props;
+
+  // Create the store once per provider instance
+  const [{ store, isOwned }] = useState(() => providedStore
+    ? { store: providedStore, isOwned: false }
+    : {
+      store: createStore<T>({
+        initialState,
+        persistence: { enabled: false, ...persistence },
+      }),
+      isOwned: true,
+    });
+
+  // Release the store this provider created; a provided store is left to its owner.
+  // StrictMode runs the cleanup and then the effect again on the same store, so
+  // the effect reconnects its persistence (a no-op on first mount).
+  useEffect(() => {
+    if (!isOwned) return;
+    reconnectStore(store);
+    return () => store.destroy();
+  }, [store, isOwned]);
+
+  return createElement(ScopeContext.Provider, { value: store }, children);
+}
+
+/**
+ * Get the store provided by the nearest `<ScopeProvider>`.
+ * Use its `$` to mutate state from event handlers.
+ *
+ * @throws If called outside of a `<ScopeProvider>`
+ */
+export function useStore<T extends Record<string, any> = Record<string, any>>(): ScopeStore<T> {
+  const store = useContext(ScopeContext);
+
+  if (!store) {
+    throw new Error('useStore() and useScopeStore() must be used inside a <ScopeProvider>');
+  }
+
+  return store as ScopeStore<T>;
+}
+
+/**
+ * `useScope()` for the store provided by the nearest `<ScopeProvider>`.
+ * The selector receives that store's proxy instead of closing over the global `$`.
+ *
+ * @example
+ * const todos = useScopeStore(($) => $.todos);
+ *
+ * @param selector - Function that returns the data you want to subscribe to
+ * @param options - Same as `useScope()`'s, e.g. `equals`
+ * @returns A read-only snapshot of the selected data
+ */
+export function useScopeStore<T extends Record<string, any> = Record<string, any>, R = unknown>(
+  selector: ($: StoreType<T>) => R,
+  options?: UseScopeOptions<ScopeSnapshot<R>>
+): ScopeSnapshot<R> {
+  const { $ } = useStore<T>();
+  return useScope(() => selector($), options);
+}
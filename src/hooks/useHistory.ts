@@ -0,0 +1,48 @@
+import { useCallback } from 'react';
+import { useSyncExternalStore } from './useSyncExternalStore';
+import type { History } from '../types';
+
+/**
+ * Hook to use an undo/redo history in a component.
+ *
+ * Re-renders whenever the undo or redo stack changes, so buttons can be
+ * enabled/disabled from `canUndo` and `canRedo`.
+ *
+ * @example
+ * const history = createHistory($, { paths: ['document'] });
+ *
+ * function Toolbar() {
+ *   const { undo, redo, canUndo, canRedo } = useHistory(history);
+ *   return (
+ *     <>
+ *       <button onClick={undo} disabled={!canUndo}>Undo</button>
+ *       <button onClick={redo} disabled={!canRedo}>Redo</button>
+ *     </>
+ *   );
+ * }
+ *
+ * @param history - A history created with `createHistory()`
+ * @returns The history's state and controls
+ */
+export function useHistory(history: History): {
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => boolean;
+  redo: () => boolean;
+  clear: () => void;
+} {
+  const getCanUndo = useCallback(() => history.canUndo, [history]);
+  const getCanRedo = useCallback(() => history.canRedo, [history]);
+
+  // History methods don't rely on `this`, so `subscribe` can be passed as is
+  const canUndo = useSyncExternalStore(history.subscribe, getCanUndo, getCanUndo);
+  const canRedo = useSyncExternalStore(history.subscribe, getCanRedo, getCanRedo);
+
+  return {
+    canUndo,
+    canRedo,
+    undo: history.undo,
+    redo: history.redo,
+    clear: history.clear,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createElement, useLayoutEffect } from 'react';
+import { act, render } from '@testing-library/react';
+import { useScope } from './useScope';
+import { createStore } from '../createStore';
+import { shallowEqual } from '../core/equality';
+import { monitoringConfig } from '../config';
+
+function createTestStore() {
+  return createStore({
+    initialState: { count: 0, todos: [{ id: 1, done: false }], label: 'Todos' },
+    persistence: { enabled: false },
+  });
+}
+
+describe('useScope', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  it('re-renders only when a selected path changes', () => {
+    const store = createTestStore();
+    let renders = 0;
+
+    function Count() {
+      renders++;
+      return createElement('span', null, useScope(() => store.$.count));
+    }
+
+    const { container, unmount } = render(createElement(Count));
+    expect(container.textContent).toBe('0');
+
+    act(() => {
+      store.$.label = 'Tasks';
+    });
+    expect(renders).toBe(1);
+
+    act(() => {
+      store.$.count = 1;
+    });
+    expect(container.textContent).toBe('1');
+    expect(renders).toBe(2);
+
+    unmount();
+    store.destroy();
+  });
+
+  it('picks up writes made between render and subscription', () => {
+    const store = createTestStore();
+
+    function Count() {
+      return createElement('span', null, useScope(() => store.$.count));
+    }
+
+    // Layout effects run before the passive effect that subscribes
+    function Writer() {
+      useLayoutEffect(() => {
+        store.$.count = 5;
+      }, []);
+      return null;
+    }
+
+    const { container, unmount } = render(createElement('div', null, createElement(Count), createElement(Writer)));
+    expect(container.textContent).toBe('5');
+
+    unmount();
+    store.destroy();
+  });
+
+  it('skips re-renders when `equals` finds the selection unchanged', () => {
+    const store = createTestStore();
+    let shallowRenders = 0;
+    let defaultRenders = 0;
+
+    function ShallowIds() {
+      shallowRenders++;
+      const ids = useScope(() => store.$.todos.map(todo => todo.id), { equals: shallowEqual });
+      return createElement('span', null, ids.join(','));
+    }
+
+    function DefaultIds() {
+      defaultRenders++;
+      const ids = useScope(() => store.$.todos.map(todo => todo.id));
+      return createElement('span', null, ids.join(','));
+    }
+
+    const { container, unmount } = render(createElement('div', null, createElement(ShallowIds), createElement(DefaultIds)));
+
+    // Same ids, but a new array
+    act(() => {
+      store.$.todos[0].done = true;
+    });
+    expect(shallowRenders).toBe(1);
+    expect(defaultRenders).toBe(2);
+
+    act(() => {
+      store.$.todos.push({ id: 2, done: false });
+    });
+    expect(shallowRenders).toBe(2);
+    expect(Array.from(container.querySelectorAll('span')).map(span => span.textContent)).toEqual(['1,2', '1,2']);
+
+    unmount();
+    store.destroy();
+  });
+
+  it('unsubscribes on unmount', () => {
+    const store = createTestStore();
+
+    function Todos() {
+      const todos = useScope(() => store.$.todos.filter(todo => !todo.done));
+      return createElement('span', null, todos.length);
+    }
+
+    const { unmount } = render(createElement(Todos));
+    expect(store.getStats().listenerCount).toBeGreaterThan(0);
+
+    unmount();
+    expect(store.getStats().listenerCount).toBe(0);
+    store.destroy();
+  });
+});
@@ -1,9 +1,11 @@
-import { useEffect, useState, useCallback, useRef } from 'react';
-import { subscribe } from '../core/listeners';
-import { trackDependencies } from '../core/tracking';
+import { useCallback, useRef } from 'react';
+import { defaultRegistry } from '../core/listeners';
+import { trackDependencies, subscribeToDependencies, getDependenciesKey, getRevisionKey } from '../core/tracking';
+import { useSyncExternalStore } from './useSyncExternalStore';
 import { pathUsageStats, selectorPaths } from '../core/proxy';
 import { createReadonlySnapshot } from '../core/snapshot';
-import type { ScopeSnapshot } from '../types';
+import { strictEqual } from '../core/equality';
+import type { ScopeSnapshot, UseScopeOptions } from '../types';
 
 /**
  * Hook to subscribe to the global store and re-render when specific data changes.
@@ -29,25 +31,34 @@ import type { ScopeSnapshot } from '../types';
  * // Subscribe to a computed value
  * const isAdmin = useScope(() => $.user.role === 'admin');
  * 
+ * // Skip re-renders when the selected value is unchanged
+ * const ids = useScope(() => $.todos.map(todo => todo.id), { equals: shallowEqual });
+ * 
  * @param selector - Function that returns the data you want to subscribe to
+ * @param options - `equals` to customize how the selected value is compared (`Object.is` by default)
  * @returns A read-only snapshot of the selected data
  */
 export function useScope<T>(
-  selector: () => T
+  selector: () => T,
+  options: UseScopeOptions<ScopeSnapshot<T>> = {}
 ): ScopeSnapshot<T> {
 
-  const snapshotCacheRef = useRef<{
-    revision: number;
-    source: unknown;
-    snapshot: unknown;
-  }>({
-    revision: -1,
-    source: undefined,
-    snapshot: undefined,
+  // Hook-local state: `version` is bumped whenever the selected value changes
+  // and is the value React compares to decide whether to re-render.
+  const stateRef = useRef<SelectionState<T>>({
+    version: 0,
+    renderRevision: '',
+    selector,
+    equals: strictEqual,
+    selected: undefined as ScopeSnapshot<T>,
+    cache: { version: -1, source: undefined, snapshot: undefined },
   });
+  const state = stateRef.current;
+  state.selector = selector;
+  state.equals = options.equals || strictEqual;
 
   // Track dependencies and get the selected value from the store
-  const { value: selectedValue, paths: trackedPaths } = trackDependencies(selector);
+  const { value: selectedValue, paths: trackedPaths, dependencies } = trackDependencies(selector);
 
   // Add tracked paths to selector paths for ultra-selective proxying
   trackedPaths.forEach(path => {
@@ -55,60 +66,96 @@ export function useScope<T>(
     pathUsageStats.subscribedPaths.add(path);
   });
 
-  // Use a counter to invalidate the cached snapshot only when this hook
-  // receives a relevant store notification.
-  const [revision, forceUpdate] = useState(0);
+  // Subscribe to all relevant paths (the whole default store if none were read)
+  const subscriptions = dependencies.length > 0
+    ? dependencies
+    : [{ registry: defaultRegistry, path: '' }];
+  const dependenciesKey = getDependenciesKey(subscriptions);
 
-  // Create stable update handler that forces re-render
-  const handleChange = useCallback(() => {
-    try {
-      forceUpdate(count => count + 1);
-    } catch (error) {
-      console.error('Error in useScope update:', error);
-    }
-  }, []);
-
-  useEffect(() => {
-
-    if (typeof requestAnimationFrame === 'function') {
-      requestAnimationFrame(() => {
-        handleChange();
-      });
-    } else {
-      setTimeout(() => {
-        handleChange();
-      }, 16);
+  // Store revision this render read from
+  state.renderRevision = getRevisionKey(subscriptions);
+
+  const subscribe = useCallback((onStoreChange: () => void) => {
+    const unsubscribe = subscribeToDependencies(subscriptions, () => {
+      if (updateSelection(state)) {
+        onStoreChange();
+      }
+    });
+
+    // The store changed between render and subscription — React re-reads the
+    // snapshot right after subscribing and re-renders with the new state
+    if (getRevisionKey(subscriptions) !== state.renderRevision) {
+      updateSelection(state);
     }
 
-    const pathKeys = trackedPaths.length > 0 ? trackedPaths : [''];
+    return unsubscribe;
+    // `state` is the hook's ref, and `subscriptions` is keyed by `dependenciesKey`
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dependenciesKey]);
 
-    // Subscribe to all relevant paths
-    const unsubscribeFunctions = pathKeys.map(pathKey => {
-      // Mark this path as subscribed for usage tracking
-      pathUsageStats.subscribedPaths.add(pathKey);
-      return subscribe(pathKey, handleChange);
-    });
+  // Stable: returns the same number until the selected value changes
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const getSnapshot = useCallback(() => state.version, []);
 
-    // Clean up subscriptions on unmount or dependency change
-    return () => {
-      unsubscribeFunctions.forEach(unsubscribe => unsubscribe());
-    };
-  }, [trackedPaths.join(','), handleChange]); // Stable dependencies
+  const version = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
 
   if (selectedValue === null || typeof selectedValue !== 'object') {
-    return selectedValue as ScopeSnapshot<T>;
+    state.selected = selectedValue as ScopeSnapshot<T>;
+    return state.selected;
   }
 
-  if (
-    snapshotCacheRef.current.revision !== revision ||
-    snapshotCacheRef.current.source !== selectedValue
-  ) {
-    snapshotCacheRef.current = {
-      revision,
+  // Reuse the read-only snapshot until the store or the selected value changes
+  const cache = state.cache;
+  if (cache.version !== version || cache.source !== selectedValue) {
+    state.cache = {
+      version,
       source: selectedValue,
       snapshot: createReadonlySnapshot(selectedValue),
     };
   }
 
-  return snapshotCacheRef.current.snapshot as ScopeSnapshot<T>;
-} 
\ No newline at end of file
+  state.selected = state.cache.snapshot as ScopeSnapshot<T>;
+  return state.selected;
+}
+
+interface SelectionState<T> {
+  version: number;
+  renderRevision: string;
+  selector: () => T;
+  equals: (a: ScopeSnapshot<T>, b: ScopeSnapshot<T>) => boolean;
+  /** The value returned by the last render (a snapshot for objects) */
+  selected: ScopeSnapshot<T>;
+  cache: { version: number; source: unknown; snapshot: unknown };
+}
+
+/**
+ * Re-run the selector after a store change and bump the version if the result
+ * differs from the last rendered value.
+ *
+ * @returns Whether the component needs to re-render
+ */
+function updateSelection<T>(state: SelectionState<T>): boolean {
+  let value: T;
+  try {
+    value = trackDependencies(state.selector).value;
+  } catch {
+    // Let the next render surface the error
+    state.version++;
+    return true;
+  }
+
+  const isObject = value !== null && typeof value === 'object';
+  const next = (isObject ? createReadonlySnapshot(value) : value) as ScopeSnapshot<T>;
+
+  if (state.equals(state.selected, next)) {
+    return false;
+  }
+
+  state.version++;
+  state.selected = next;
+  if (isObject) {
+    // Render reuses this snapshot instead of creating another one
+    state.cache = { version: state.version, source: value, snapshot: next };
+  }
+  return true;
+}
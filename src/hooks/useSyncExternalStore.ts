@@ -0,0 +1,61 @@
+import * as React from 'react';
+
+type Subscribe = (onStoreChange: () => void) => () => void;
+
+// useLayoutEffect warns when rendering on the server with React 16/17
+const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? React.useLayoutEffect : React.useEffect;
+
+function hasSnapshotChanged<T>(inst: { value: T; getSnapshot: () => T }): boolean {
+  try {
+    return !Object.is(inst.value, inst.getSnapshot());
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * `useSyncExternalStore` for React 16.8 and 17, which don't ship it.
+ * Re-checks the snapshot after render and after subscribing, so changes made
+ * between render and commit are never missed.
+ */
+function useSyncExternalStoreShim<T>(subscribe: Subscribe, getSnapshot: () => T): T {
+  const value = getSnapshot();
+  const [{ inst }, forceUpdate] = React.useState({ inst: { value, getSnapshot } });
+
+  // Keep the instance in sync with the committed render, then check for
+  // changes that happened during render
+  useIsomorphicLayoutEffect(() => {
+    inst.value = value;
+    inst.getSnapshot = getSnapshot;
+
+    if (hasSnapshotChanged(inst)) {
+      forceUpdate({ inst });
+    }
+  }, [subscribe, value, getSnapshot]);
+
+  React.useEffect(() => {
+    // Changes between the layout effect and subscribing
+    if (hasSnapshotChanged(inst)) {
+      forceUpdate({ inst });
+    }
+
+    return subscribe(() => {
+      if (hasSnapshotChanged(inst)) {
+        forceUpdate({ inst });
+      }
+    });
+    // `inst` is created once and mutated in place
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [subscribe]);
+
+  return value;
+}
+
+/**
+ * React's built-in `useSyncExternalStore` (React 18+), or a shim for older versions
+ */
+export const useSyncExternalStore: <T>(
+  subscribe: Subscribe,
+  getSnapshot: () => T,
+  getServerSnapshot?: () => T
+) => T = (React as any).useSyncExternalStore || useSyncExternalStoreShim;
@@ -0,0 +1,60 @@
+import { configure } from './index';
+import { monitoringConfig } from './config';
+import { subscribe } from './core/listeners';
+import { createMemoryAdapter } from './persistence/adapters';
+
+describe('configure', () => {
+  const OriginalBroadcastChannel = global.BroadcastChannel;
+  const openChannels = new Set<FakeBroadcastChannel>();
+
+  class FakeBroadcastChannel {
+    onmessage: ((event: MessageEvent) => void) | null = null;
+    constructor(public name: string) {
+      openChannels.add(this);
+    }
+    postMessage() {}
+    close() {
+      openChannels.delete(this);
+    }
+  }
+
+  beforeAll(() => {
+    // Tab sync only starts where `window` exists
+    (global as any).window = {};
+    (global as any).BroadcastChannel = FakeBroadcastChannel;
+    monitoringConfig.enabled = false;
+  });
+
+  afterAll(() => {
+    delete (global as any).window;
+    global.BroadcastChannel = OriginalBroadcastChannel;
+  });
+
+  it('releases the previous default store when called again', () => {
+    const storageAdapter = createMemoryAdapter();
+    const persistence = { enabled: true, syncTabs: true, autoFlush: false, storageAdapter };
+
+    configure({ initialState: { count: 0 }, persistence });
+    const $ = configure({ initialState: { count: 0 }, persistence });
+    expect(openChannels.size).toBe(1);
+
+    // Pending writes of the previous store are saved before it is released
+    $.count = 1;
+    configure({ initialState: { count: 0 }, persistence });
+    expect(storageAdapter.getItem('persisted_state_count')).toContain('1');
+    expect(openChannels.size).toBe(1);
+  });
+
+  it('keeps existing subscribers when called again', () => {
+    const persistence = { enabled: true, autoFlush: false, storageAdapter: createMemoryAdapter() };
+    configure({ initialState: { count: 0 }, persistence });
+    const listener = jest.fn();
+    const unsubscribe = subscribe('count', listener);
+
+    const $ = configure({ initialState: { count: 0 }, persistence });
+    $.count = 1;
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+  });
+});
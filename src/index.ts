@@ -2,15 +2,38 @@
 // Main exports for the library
 export { useScope } from './hooks/useScope';
 export { useLocal } from './hooks/useLocal';
+export { useHistory } from './hooks/useHistory';
+export { ScopeProvider, useStore, useScopeStore } from './hooks/ScopeProvider';
+export type { ScopeProviderProps } from './hooks/ScopeProvider';
 export { getConfig, resetConfig, presets } from './config';
 export { initializeStore, getStore, resetStore } from './core/store';
-import { getListenerCount, getActivePaths, notifyListeners, pathListeners } from './core/listeners';
+export { batch, onChange } from './core/listeners';
+export { transaction } from './core/transaction';
+export { computed } from './core/computed';
+export { watch } from './core/watch';
+export { createHistory } from './core/history';
+export { createStore } from './createStore';
+export { dehydrate, hydrateFromServer } from './ssr';
+export { applyPatches } from './core/patches';
+export { strictEqual, shallowEqual, deepEqual } from './core/equality';
+export { deepClone, registerCloneHandler } from './core/clone';
+export type { CloneHandler } from './core/clone';
+import { getListenerCount, getActivePaths, pathListeners } from './core/listeners';
 
 // Advanced features exports
 export { monitorAPI } from './core/monitoring';
 export { persistenceAPI, hydrateState, mergePersistedIntoState } from './persistence/advanced';
 export { createLocalStorageAdapter, createMemoryAdapter, createCachedAdapter, getDefaultAdapter } from './persistence/adapters';
 export { setStorageAdapter, getStorageAdapter } from './persistence/storage';
+export { createIndexedDBAdapter } from './persistence/indexedDBAdapter';
+export type { IndexedDBAdapterOptions } from './persistence/indexedDBAdapter';
+export { createFileSystemAdapter } from './persistence/fileSystemAdapter';
+export type { FileSystemAdapterOptions } from './persistence/fileSystemAdapter';
+export { createEncryptedAdapter } from './persistence/encryptedAdapter';
+export type { EncryptedAdapterOptions } from './persistence/encryptedAdapter';
+export { createCompressedAdapter } from './persistence/compressedAdapter';
+export type { CompressedAdapterOptions } from './persistence/compressedAdapter';
+export { fromSafeParse } from './persistence/validation';
 export {
   setInitialStoreState,
   createAdvancedProxy,
@@ -25,28 +48,47 @@ export {
 // Types
 export type {
   ScopeConfig,
+  CreateStoreConfig,
+  ScopeStore,
   ProxyConfig,
   MonitoringConfig,
   PersistenceConfig,
+  PersistenceErrorInfo,
   StorageAdapter,
   MaybePromise,
   CustomMethods,
   CustomArrayMethods,
+  CustomCollectionMethods,
   ScopeSnapshot,
   StoreType,
+  StoreMethods,
+  Computed,
+  WatchOptions,
+  UseScopeOptions,
+  ChangeRecord,
+  ChangeOperation,
+  ChangeListener,
+  History,
+  HistoryOptions,
+  JsonPatchOperation,
   MonitoringStats,
+  MonitoringEvent,
+  SliceValidator,
+  ValidationResult,
+  SafeParseSchema,
   ProxyCacheStats,
   PathUsageStats
 } from './types';
 
 // Core functionality
 import { setOnStateChangeCallback } from './core/listeners';
-import { isCurrentlyTracking, trackDependencies } from './core/tracking';
+import { trackDependencies } from './core/tracking';
 import { proxyConfig, monitoringConfig, persistenceConfig } from './config';
-import { createAdvancedProxy, setInitialStoreState, pathUsageStats, selectorPaths, proxyPathMap } from './core/proxy';
-import { addToPersistenceBatch, mergePersistedIntoState, hydrateState, initializePersistence, setGlobalStoreRef, setGlobalProxyRef } from './persistence/advanced';
+import { createAdvancedProxy, setInitialStoreState, pathUsageStats, selectorPaths, proxyPathMap, proxyTargetMap, defaultProxyContext } from './core/proxy';
+import { addToPersistenceBatch, defaultPersistenceContext, setGlobalProxyRef } from './persistence/advanced';
+import { buildStore, disconnectStore } from './createStore';
 import { setStorageAdapter } from './persistence/storage';
-import type { StoreType, CustomMethods, CustomArrayMethods, ScopeConfig } from './types';
+import type { StoreType, CustomMethods, CustomArrayMethods, ScopeConfig, ScopeStore } from './types';
 
 // Global state
 let globalStore: any = {
@@ -58,6 +100,11 @@ let globalStore: any = {
 
 let globalStoreProxy: any = null;
 
+// The store built by the last configure() call, disconnected before rebuilding
+// so its tab sync, auto-flush listeners and timers don't leak. Its listeners
+// live in the default registry, which the rebuilt store shares, so they stay.
+let defaultStore: ScopeStore<any> | null = null;
+
 /**
  * Configure Scope with custom settings and return a properly typed store
  * This is the main way to set up Scope with TypeScript support
@@ -65,6 +112,13 @@ let globalStoreProxy: any = null;
 export function configure<T extends Record<string, any>>(
   config: ScopeConfig<T>
 ): StoreType<T> {
+  // Persist pending writes with the previous settings, then disconnect the previous store
+  if (defaultStore) {
+    defaultStore.persistence.flushBatch();
+    disconnectStore(defaultStore);
+    defaultStore = null;
+  }
+
   // Update configurations
   if (config.proxy) {
     Object.assign(proxyConfig, config.proxy);
@@ -80,57 +134,19 @@ export function configure<T extends Record<string, any>>(
     Object.assign(persistenceConfig, config.persistence);
   }
 
-  // ─── Build the store state ───────────────────────────────────────────
-  // For synchronous adapters (localStorage, memory), merge persisted data
-  // into the initial state BEFORE creating the proxy. This way the proxy
-  // wraps the already-correct data and React renders persisted values on
-  // the very first render — no flash of defaults, no re-renders.
-  const originalDefaults = config.initialState;
-  const shouldAutoHydrate = persistenceConfig.enabled && persistenceConfig.autoHydrate !== false;
-  let syncMerged = false;
-
-  if (shouldAutoHydrate && originalDefaults) {
-    const merged = mergePersistedIntoState(originalDefaults as Record<string, any>);
-    if (merged) {
-      globalStore = merged;
-      syncMerged = true;
-    } else {
-      globalStore = { ...originalDefaults };
-    }
-  } else if (originalDefaults) {
-    globalStore = { ...originalDefaults };
-  }
-
-  // Store original defaults for $reset() (always the un-merged defaults)
-  setInitialStoreState(originalDefaults || globalStore);
+  const store = buildStore(
+    config.initialState || globalStore,
+    defaultProxyContext,
+    defaultPersistenceContext
+  );
+  defaultStore = store;
+  globalStoreProxy = store.$;
+  globalStore = proxyTargetMap.get(globalStoreProxy) || globalStore;
 
   if (typeof window !== 'undefined' && monitoringConfig.enabled) {
     console.log('🏪 Store configured with custom state');
   }
 
-  // Store raw store ref (used for serialization during persistence)
-  setGlobalStoreRef(globalStore);
-
-  // Create and cache the advanced proxy
-  globalStoreProxy = createAdvancedProxy(globalStore);
-
-  // Store proxy ref (used for writes during hydration so set traps fire)
-  setGlobalProxyRef(globalStoreProxy);
-
-  // ─── Persistence setup ───────────────────────────────────────────────
-  if (persistenceConfig.enabled) {
-    initializePersistence(shouldAutoHydrate);
-
-    // If sync merge didn't work (async adapter), fall back to async hydration
-    if (shouldAutoHydrate && !syncMerged) {
-      hydrateState(globalStoreProxy).then((success) => {
-        if (success && typeof window !== 'undefined' && monitoringConfig.enabled) {
-          console.log('🔄 State hydrated from persistence (async)');
-        }
-      });
-    }
-  }
-
   if (typeof window !== 'undefined' && monitoringConfig.enabled) {
     console.log('🔧 Scope configured with advanced features');
   }
@@ -140,32 +156,23 @@ export function configure<T extends Record<string, any>>(
 
 // Enhanced tracking that integrates with the advanced proxy system
 export function trackDependenciesAdvanced<T>(selector: () => T): { value: T, paths: string[] } {
-  // Clear tracking state
-  const trackedPaths: string[] = [];
+  // Execute selector and track paths
+  const result = trackDependencies(selector);
 
-  // Set up tracking for selector paths (ultra-selective proxying)
-  const originalTracking = isCurrentlyTracking();
+  // Add tracked paths to selector paths for ultra-selective proxying
+  result.paths.forEach(path => {
+    selectorPaths.add(path);
+    pathUsageStats.subscribedPaths.add(path);
+  });
 
-  try {
-    // Execute selector and track paths
-    const result = trackDependencies(selector);
-
-    // Add tracked paths to selector paths for ultra-selective proxying
-    result.paths.forEach(path => {
-      selectorPaths.add(path);
-      pathUsageStats.subscribedPaths.add(path);
-    });
-
-    return result;
-  } finally {
-    // Cleanup any temporary tracking state
-  }
+  return result;
 }
 
 // Default store for when configure() isn't called
 if (!globalStoreProxy) {
   globalStoreProxy = createAdvancedProxy(globalStore);
   setInitialStoreState(globalStore);
+  setGlobalProxyRef(globalStoreProxy);
 }
 
 // Export the main $ proxy - will be properly typed if configure() is called first
@@ -31,11 +31,9 @@ export function createLocalStorageAdapter(prefix: string = 'scope_state:'): Stor
     },
 
     setItem(key: string, value: string): void {
-      try {
-        localStorage.setItem(prefix + key, value);
-      } catch (e) {
-        console.error(`[scope-state] localStorage.setItem failed for key "${key}":`, e);
-      }
+      // Errors (e.g. QuotaExceededError) are rethrown so the persistence
+      // layer can evict, retry or report them through `onError`
+      localStorage.setItem(prefix + key, value);
     },
 
     removeItem(key: string): void {
@@ -182,6 +180,13 @@ export function createCachedAdapter(backingAdapter: StorageAdapter): StorageAdap
      * all reads are served instantly from memory.
      */
     async warmCache(): Promise<void> {
+      // Bulk read when the backing store supports it (e.g. one IndexedDB transaction)
+      if (backingAdapter.entries) {
+        const entries = await backingAdapter.entries();
+        entries.forEach(([key, value]) => cache.set(key, value));
+        return;
+      }
+
       const keys = await backingAdapter.keys();
       for (const key of keys) {
         const value = await backingAdapter.getItem(key);
@@ -0,0 +1,422 @@
+import { createStore } from '../createStore';
+import { batch } from '../core/listeners';
+import { createMemoryAdapter, createCachedAdapter } from './adapters';
+import { wrapEnvelope, unwrapEnvelope } from './envelope';
+import { fromSafeParse } from './validation';
+import { monitorAPI } from '../core/monitoring';
+import { monitoringConfig } from '../config';
+import type { MonitoringEvent } from '../types';
+
+describe('persistence migrations', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  const migrate = {
+    2: (state: any) => {
+      if (state.user) {
+        state.user.preferences = state.user.prefs;
+        delete state.user.prefs;
+      }
+      return state;
+    },
+    3: (state: any) => {
+      if (state.user) state.user.preferences.compact ??= false;
+      return state;
+    },
+  };
+
+  it('migrates legacy slices in order during the synchronous merge and saves them', () => {
+    const adapter = createMemoryAdapter();
+    adapter.setItem('app:persisted_state_user', JSON.stringify({ name: 'Ann', prefs: { theme: 'dark' } }));
+
+    const store = createStore({
+      initialState: { user: { name: '', preferences: { theme: 'light', compact: true } } },
+      persistence: { namespace: 'app', storageAdapter: adapter, version: 3, migrate },
+    });
+
+    expect(store.$.user.raw()).toEqual({ name: 'Ann', preferences: { theme: 'dark', compact: false } });
+
+    const stored = unwrapEnvelope(adapter.getItem('app:persisted_state_user') as string);
+    expect(stored.version).toBe(3);
+    expect(stored.data.preferences.theme).toBe('dark');
+    store.destroy();
+  });
+
+  it('quarantines a slice whose migration throws and keeps the initial state', () => {
+    const adapter = createMemoryAdapter();
+    const legacy = wrapEnvelope({ name: 'Ann' }, { version: 1 });
+    adapter.setItem('app:persisted_state_user', legacy);
+
+    const store = createStore({
+      initialState: { user: { name: 'Default' } },
+      persistence: {
+        namespace: 'app',
+        storageAdapter: adapter,
+        version: 2,
+        migrate: { 2: () => { throw new Error('bad data'); } },
+      },
+    });
+
+    expect(store.$.user.name).toBe('Default');
+    expect(adapter.getItem('app:persisted_state_user')).toBeNull();
+    expect(adapter.getItem('app:persisted_quarantine_user')).toBe(legacy);
+    store.destroy();
+  });
+
+  it('runs migrations when hydrating from an async adapter', async () => {
+    const backing = createMemoryAdapter();
+    backing.setItem('app:persisted_state_user', wrapEnvelope({ name: 'Ann', prefs: { theme: 'dark' } }, { version: 1 }));
+
+    const store = createStore({
+      initialState: { user: { name: '', preferences: { theme: 'light' } } },
+      persistence: {
+        namespace: 'app',
+        storageAdapter: createCachedAdapter(backing),
+        version: 2,
+        migrate,
+        autoHydrate: false,
+      },
+    });
+
+    await store.persistence.rehydrate();
+
+    expect(store.$.user.raw()).toEqual({ name: 'Ann', preferences: { theme: 'dark' } });
+    expect(unwrapEnvelope(backing.getItem('app:persisted_state_user') as string).version).toBe(2);
+    store.destroy();
+  });
+});
+
+describe('persistence validation', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  it('skips invalid slices, keeps valid ones and reports the failure', () => {
+    const adapter = createMemoryAdapter();
+    adapter.setItem('app:persisted_state_settings', JSON.stringify({ theme: 42 }));
+    adapter.setItem('app:persisted_state_user', JSON.stringify({ name: 'Ann' }));
+
+    const events: MonitoringEvent[] = [];
+    const stop = monitorAPI.onEvent(event => events.push(event));
+
+    const store = createStore({
+      initialState: { settings: { theme: 'light' }, user: { name: '' } },
+      persistence: {
+        namespace: 'app',
+        storageAdapter: adapter,
+        validate: {
+          settings: (value: any) => typeof value?.theme === 'string',
+          user: () => ({ success: true, data: { name: 'Validated' } }),
+        },
+      },
+    });
+    stop();
+
+    expect(store.$.settings.theme).toBe('light');
+    expect(store.$.user.name).toBe('Validated');
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'validationFailed', namespace: 'app', path: 'settings' });
+    store.destroy();
+  });
+
+  it('adapts zod-like schemas with fromSafeParse', () => {
+    const schema = {
+      safeParse: (value: any) => typeof value === 'number'
+        ? { success: true as const, data: value }
+        : { success: false as const, error: new Error('Expected a number') },
+    };
+    const validator = fromSafeParse(schema);
+
+    expect(validator(3)).toEqual({ success: true, data: 3 });
+    expect(validator('3')).toMatchObject({ success: false });
+  });
+});
+
+describe('cross-tab sync', () => {
+  // Minimal in-process BroadcastChannel: delivers to every other open channel with the same name
+  class FakeBroadcastChannel {
+    static channels = new Set<FakeBroadcastChannel>();
+    onmessage: ((event: { data: unknown }) => void) | null = null;
+
+    constructor(public name: string) {
+      FakeBroadcastChannel.channels.add(this);
+    }
+
+    postMessage(data: unknown) {
+      FakeBroadcastChannel.channels.forEach(channel => {
+        if (channel !== this && channel.name === this.name) channel.onmessage?.({ data });
+      });
+    }
+
+    close() {
+      FakeBroadcastChannel.channels.delete(this);
+    }
+  }
+
+  beforeAll(() => {
+    // Tab sync only starts where `window` exists
+    (global as any).window = {};
+    (global as any).BroadcastChannel = FakeBroadcastChannel;
+    monitoringConfig.enabled = false;
+  });
+
+  afterAll(() => {
+    delete (global as any).window;
+    delete (global as any).BroadcastChannel;
+  });
+
+  const createTab = (adapter: ReturnType<typeof createMemoryAdapter>) => createStore({
+    initialState: { todos: [] as string[], draft: '' },
+    persistence: { namespace: 'tabs', storageAdapter: adapter, syncTabs: true, blacklist: ['draft'] },
+  });
+
+  it('applies slices persisted in another tab without echoing them back', () => {
+    const adapter = createMemoryAdapter();
+    const tabA = createTab(adapter);
+    const tabB = createTab(adapter);
+    const listener = jest.fn();
+    tabB.subscribe('todos', listener);
+
+    tabA.$.todos.push('write tests');
+    tabA.$.draft = 'unsaved';
+    tabA.persistence.flushBatch();
+
+    expect(tabB.$.todos.raw()).toEqual(['write tests']);
+    expect(tabB.$.draft).toBe('');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(tabB.persistence.getBatchStatus().batchSize).toBe(0);
+
+    tabA.destroy();
+    tabB.destroy();
+    expect(FakeBroadcastChannel.channels.size).toBe(0);
+  });
+
+  it('does not echo slices received inside a batch', () => {
+    const adapter = createMemoryAdapter();
+    const tabA = createTab(adapter);
+    const tabB = createTab(adapter);
+    const listener = jest.fn();
+    tabB.subscribe('todos', listener);
+
+    tabA.$.todos.push('write tests');
+    batch(() => {
+      tabA.persistence.flushBatch();
+      tabB.$.draft = 'typing';
+    });
+
+    expect(tabB.$.todos.raw()).toEqual(['write tests']);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(tabB.persistence.getBatchStatus().batchSize).toBe(0);
+
+    // A later local change to the slice is persisted as usual
+    tabB.$.todos.push('ship it');
+    expect(tabB.persistence.getBatchStatus().pendingRoots).toEqual(['todos']);
+
+    tabA.destroy();
+    tabB.destroy();
+  });
+});
+
+describe('persistence ttl', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  const DAY = 86_400_000;
+
+  it('removes expired slices on load and keeps fresh ones', () => {
+    const adapter = createMemoryAdapter();
+    adapter.setItem('api:persisted_state_catalog', wrapEnvelope(['stale'], { version: 0, timestamp: Date.now() - 2 * DAY }));
+    adapter.setItem('api:persisted_state_recent', wrapEnvelope(['fresh'], { version: 0, timestamp: Date.now() - 1000 }));
+
+    const store = createStore({
+      initialState: { catalog: [] as string[], recent: [] as string[] },
+      persistence: { namespace: 'api', storageAdapter: adapter, ttl: { catalog: DAY, recent: DAY } },
+    });
+
+    expect(store.$.catalog.raw()).toEqual([]);
+    expect(store.$.recent.raw()).toEqual(['fresh']);
+    expect(adapter.getItem('api:persisted_state_catalog')).toBeNull();
+
+    expect(store.persistence.getRemainingTTL('catalog')).toBeNull();
+    expect(store.persistence.getRemainingTTL('recent')).toBeGreaterThan(DAY - 60_000);
+    store.destroy();
+  });
+
+  it('stores the write time and reports the remaining TTL', () => {
+    const adapter = createMemoryAdapter();
+    const store = createStore({
+      initialState: { catalog: [] as string[], theme: 'light' },
+      persistence: { namespace: 'api', storageAdapter: adapter, ttl: { catalog: DAY } },
+    });
+
+    store.$.catalog.push('item');
+    store.$.theme = 'dark';
+    store.persistence.flushBatch();
+
+    const stored = unwrapEnvelope(adapter.getItem('api:persisted_state_catalog') as string);
+    expect(Date.now() - stored.timestamp!).toBeLessThan(1000);
+    expect(store.persistence.getRemainingTTL('catalog')).toBeGreaterThan(DAY - 1000);
+    expect(store.persistence.getRemainingTTL('theme')).toBeNull();
+    store.destroy();
+  });
+});
+
+describe('persistence write failures', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  const quotaError = () => Object.assign(new Error('Quota exceeded'), { name: 'QuotaExceededError' });
+
+  // Memory adapter that throws once more than `limit` characters are stored
+  function createLimitedAdapter(limit: number) {
+    const adapter = createMemoryAdapter();
+    const setItem = adapter.setItem;
+    adapter.setItem = (key, value) => {
+      const used = (adapter.keys() as string[])
+        .filter(k => k !== key)
+        .reduce((total, k) => total + (adapter.getItem(k) as string).length, 0);
+      if (used + value.length > limit) throw quotaError();
+      return setItem(key, value);
+    };
+    return adapter;
+  }
+
+  it('evicts lower-priority roots when storage is full', () => {
+    const adapter = createLimitedAdapter(400);
+    const store = createStore({
+      initialState: { catalog: [] as string[], cart: [] as string[] },
+      persistence: { namespace: 'shop', storageAdapter: adapter, evict: ['catalog', 'cart'] },
+    });
+
+    store.$.catalog.push('x'.repeat(200));
+    store.persistence.flushBatch();
+    store.$.cart.push('y'.repeat(250));
+    store.persistence.flushBatch();
+
+    expect(adapter.getItem('shop:persisted_state_catalog')).toBeNull();
+    expect(unwrapEnvelope(adapter.getItem('shop:persisted_state_cart') as string).data).toEqual(['y'.repeat(250)]);
+    expect(store.persistence.getBatchStatus().failedRoots).toEqual([]);
+    store.destroy();
+  });
+
+  it('reports writes that still fail through onError and getBatchStatus', () => {
+    const adapter = createLimitedAdapter(100);
+    const onError = jest.fn();
+    const store = createStore({
+      initialState: { catalog: [] as string[] },
+      persistence: { namespace: 'shop', storageAdapter: adapter, onError },
+    });
+
+    store.$.catalog.push('x'.repeat(200));
+    store.persistence.flushBatch();
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ name: 'QuotaExceededError' }), {
+      root: 'catalog',
+      size: expect.any(Number),
+    });
+    const status = store.persistence.getBatchStatus();
+    expect(status.failedRoots).toEqual(['catalog']);
+    expect(status.lastError).toMatchObject({ root: 'catalog' });
+    store.destroy();
+  });
+
+  it('retries failed writes to async adapters with backoff', async () => {
+    const backing = createMemoryAdapter();
+    let failures = 2;
+    const adapter = {
+      ...backing,
+      setItem: async (key: string, value: string) => {
+        if (key.endsWith('_todos') && failures-- > 0) throw new Error('busy');
+        backing.setItem(key, value);
+      },
+    };
+    const onError = jest.fn();
+    const store = createStore({
+      initialState: { todos: [] as string[] },
+      persistence: { namespace: 'app', storageAdapter: adapter, retryDelay: 5, onError },
+    });
+
+    store.$.todos.push('write docs');
+    store.persistence.flushBatch();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(unwrapEnvelope(backing.getItem('app:persisted_state_todos') as string).data).toEqual(['write docs']);
+    expect(onError).not.toHaveBeenCalled();
+    expect(store.persistence.getBatchStatus().failedRoots).toEqual([]);
+    store.destroy();
+  });
+});
+
+describe('persistence auto-flush', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  afterEach(() => {
+    delete (global as any).window;
+    delete (global as any).document;
+  });
+
+  it('flushes pending changes when the page is hidden', () => {
+    const fakeDocument = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+    (global as any).window = new EventTarget();
+    (global as any).document = fakeDocument;
+
+    const adapter = createMemoryAdapter();
+    const store = createStore({
+      initialState: { draft: '' },
+      persistence: { namespace: 'page', storageAdapter: adapter, batchDelay: 10_000 },
+    });
+
+    store.$.draft = 'unsaved';
+    expect(adapter.getItem('page:persisted_state_draft')).toBeNull();
+
+    fakeDocument.visibilityState = 'hidden';
+    fakeDocument.dispatchEvent(new Event('visibilitychange'));
+    expect(unwrapEnvelope(adapter.getItem('page:persisted_state_draft') as string).data).toBe('unsaved');
+
+    store.$.draft = 'closing';
+    (global as any).window.dispatchEvent(new Event('pagehide'));
+    expect(unwrapEnvelope(adapter.getItem('page:persisted_state_draft') as string).data).toBe('closing');
+    store.destroy();
+  });
+
+  it('flushes through an injected lifecycle hook and unsubscribes on destroy', () => {
+    let background: (() => void) | undefined;
+    const unsubscribe = jest.fn();
+
+    const adapter = createMemoryAdapter();
+    const store = createStore({
+      initialState: { draft: '' },
+      persistence: {
+        namespace: 'native',
+        storageAdapter: adapter,
+        batchDelay: 10_000,
+        lifecycle: flush => {
+          background = flush;
+          return unsubscribe;
+        },
+      },
+    });
+
+    store.$.draft = 'unsaved';
+    background!();
+    expect(unwrapEnvelope(adapter.getItem('native:persisted_state_draft') as string).data).toBe('unsaved');
+
+    store.destroy();
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+});
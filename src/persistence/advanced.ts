@@ -1,53 +1,211 @@
 
 import { monitoringConfig, persistenceConfig } from '../config';
-import { getStorageAdapter } from './storage';
+import { getStorageAdapter, hasCustomStorageAdapter } from './storage';
+import { serializeState } from './serialization';
+import { wrapEnvelope, unwrapEnvelope } from './envelope';
+import type { PersistedEnvelope } from './envelope';
+import { needsMigration, migrateSlice } from './migrations';
+import { runValidator } from './validation';
+import { emitMonitoringEvent } from '../core/monitoring';
+import { isBatching } from '../core/listeners';
+import { resolvePath } from '../core/paths';
+import type { MaybePromise, PersistenceConfig, StorageAdapter } from '../types';
 
 // Storage constants
 const PERSISTED_STATE_KEY = 'persisted_state';
 const PERSISTENCE_CONFIG_KEY = 'persistence_config';
+const QUARANTINE_KEY = 'persisted_quarantine';
 
-// Global store references — set by configure()
-// The raw store is used for reading/serializing state during persistence.
-// The proxy is used for writing during hydration so that set traps fire
-// and components re-render with the hydrated values.
-let globalStoreRef: any = null;
-let globalProxyRef: any = null;
+// Config fields that come from code — never saved to or restored from storage
+const CODE_ONLY_CONFIG_KEYS = [
+  'storageAdapter', 'autoHydrate', 'namespace', 'version', 'migrate', 'onMigrationError', 'validate', 'syncTabs',
+  'ttl', 'onError', 'maxRetries', 'retryDelay', 'evict', 'autoFlush', 'lifecycle',
+];
 
-// Flag to suppress persistence during hydration — hydration writes through
-// the proxy (to trigger re-renders), which also triggers the persistence
-// callback. We skip that to avoid wastefully re-persisting the same data.
-let isHydrating = false;
+/**
+ * Persistence state owned by a single store instance. Every store created with
+ * `createStore()` gets its own context; the default `$` store uses
+ * `defaultPersistenceContext`.
+ */
+export interface PersistenceContext {
+  /** Persistence settings (the shared `persistenceConfig` for the default store) */
+  readonly config: PersistenceConfig;
+  /** Prefix for storage keys, so several stores can share one adapter ('' for the default store) */
+  namespace: string;
+  /** Adapter used by this store. `null` falls back to the global adapter (`setStorageAdapter`). */
+  adapter: (StorageAdapter & { warmCache?(): Promise<void> }) | null;
+  // Store references — the raw store is used for reading/serializing state
+  // during persistence. The proxy is used for writing during hydration so that
+  // set traps fire and components re-render with the hydrated values.
+  storeRef: any;
+  proxyRef: any;
+  // Flag to suppress persistence during hydration — hydration writes through
+  // the proxy (to trigger re-renders), which also triggers the persistence
+  // callback. We skip that to avoid wastefully re-persisting the same data.
+  isHydrating: boolean;
+  // Inside a batch, notifications (and so persistence) run after `isHydrating`
+  // is reset. Values written without persisting are kept here by path, and
+  // skipped when their notification arrives if the store still holds them.
+  unpersistedWrites: Map<string, unknown>;
+  // Flag to block persistence until the first hydration has completed.
+  // This prevents React effects that fire between the initial render and
+  // hydration from persisting default values over the correct stored data.
+  hasHydrated: boolean;
+  // Batch persistence state — stores persistence *roots* (e.g. "user", "todos"),
+  // not individual leaf paths like "user.preferences.theme".
+  batch: {
+    roots: Set<string>;
+    timeoutId: NodeJS.Timeout | null;
+    isPersisting: boolean;
+  };
+  // Set while cross-tab sync is running — announces persisted slices to other tabs
+  broadcast: ((rootPath: string, serialized: string) => void) | null;
+  // Write time of each persisted root (for `ttl`), from storage or the last write
+  timestamps: Map<string, number>;
+  // Write failures: roots whose last write failed (with their retry count),
+  // pending retry timers and the last error, for `getBatchStatus()`
+  failures: {
+    roots: Map<string, number>;
+    retryTimeouts: Set<NodeJS.Timeout>;
+    lastError: { error: unknown; root: string; timestamp: number } | null;
+  };
+  // Roots evicted to make room in full storage, until they are persisted again
+  evicted: Set<string>;
+}
+
+/**
+ * Create the persistence context for a store instance.
+ *
+ * @param config - The store's persistence settings
+ * @param namespace - Prefix for the store's storage keys
+ * @param adapter - The store's storage adapter (defaults to the global adapter)
+ */
+export function createPersistenceContext(
+  config: PersistenceConfig,
+  namespace: string,
+  adapter: StorageAdapter | null = null
+): PersistenceContext {
+  return {
+    config,
+    namespace,
+    adapter,
+    storeRef: null,
+    proxyRef: null,
+    isHydrating: false,
+    unpersistedWrites: new Map<string, unknown>(),
+    hasHydrated: false,
+    batch: {
+      roots: new Set<string>(),
+      timeoutId: null,
+      isPersisting: false,
+    },
+    broadcast: null,
+    timestamps: new Map<string, number>(),
+    failures: {
+      roots: new Map<string, number>(),
+      retryTimeouts: new Set<NodeJS.Timeout>(),
+      lastError: null,
+    },
+    evicted: new Set<string>(),
+  };
+}
+
+// Context of the default store — always reads the current `persistenceConfig`
+export const defaultPersistenceContext: PersistenceContext = {
+  ...createPersistenceContext(persistenceConfig, ''),
+  get config() {
+    return persistenceConfig;
+  },
+};
+
+// Track which persistence context each store proxy belongs to
+const persistenceContextMap = new WeakMap<object, PersistenceContext>();
+
+/**
+ * Get the persistence context of a store proxy (the default context for other objects)
+ */
+export function getPersistenceContext(proxy: object): PersistenceContext {
+  return persistenceContextMap.get(proxy) || defaultPersistenceContext;
+}
+
+function getAdapter(context: PersistenceContext): StorageAdapter & { warmCache?(): Promise<void> } {
+  return context.adapter || getStorageAdapter();
+}
+
+/**
+ * Whether persistence can run here: always in the browser, and elsewhere
+ * (Node, Electron, CLI tools) only with an explicit adapter — the store's own,
+ * or a global one set with `setStorageAdapter()`. The default memory adapter
+ * wouldn't survive a restart anyway.
+ */
+function canPersist(context: PersistenceContext): boolean {
+  return typeof window !== 'undefined' ||
+    !!context.adapter ||
+    !!context.config.storageAdapter ||
+    hasCustomStorageAdapter();
+}
+
+/**
+ * Storage key of the full-state blob; slice keys are `${key}_${rootPath}`
+ */
+function getStateKey(context: PersistenceContext): string {
+  return context.namespace ? `${context.namespace}:${PERSISTED_STATE_KEY}` : PERSISTED_STATE_KEY;
+}
+
+function getConfigKey(context: PersistenceContext): string {
+  return context.namespace ? `${context.namespace}:${PERSISTENCE_CONFIG_KEY}` : PERSISTENCE_CONFIG_KEY;
+}
+
+/**
+ * Storage key prefix for slices whose migration failed; entries are `${key}_${rootPath}`
+ */
+function getQuarantineKey(context: PersistenceContext): string {
+  return context.namespace ? `${context.namespace}:${QUARANTINE_KEY}` : QUARANTINE_KEY;
+}
+
+function omitCodeOnlyConfig(config: Record<string, any>): Record<string, any> {
+  const serializable = { ...config };
+  CODE_ONLY_CONFIG_KEYS.forEach(key => delete serializable[key]);
+  return serializable;
+}
+
+/**
+ * Run a fire-and-forget adapter call and log its failure (sync throw or rejection)
+ */
+function reportAdapterError(call: () => unknown, message: string): void {
+  let result: unknown;
+  try {
+    result = call();
+  } catch (e) {
+    console.error(message, e);
+    return;
+  }
 
-// Flag to block persistence until the first hydration has completed.
-// This prevents React effects that fire between the initial render and
-// hydration from persisting default values over the correct stored data.
-let hasHydrated = false;
+  if (result && typeof (result as any).catch === 'function') {
+    (result as Promise<void>).catch(e => {
+      console.error(message, e);
+    });
+  }
+}
 
 /**
- * Set the global store reference (raw object) for serialization during persistence.
+ * Set the store reference (raw object) for serialization during persistence.
  * Called internally by configure().
  */
-export function setGlobalStoreRef(store: any): void {
-  globalStoreRef = store;
+export function setGlobalStoreRef(store: any, context: PersistenceContext = defaultPersistenceContext): void {
+  context.storeRef = store;
 }
 
 /**
- * Set the global proxy reference for hydration writes.
+ * Set the proxy reference for hydration writes.
  * Writing through the proxy ensures set traps fire and components re-render.
  * Called internally by configure() after the proxy is created.
  */
-export function setGlobalProxyRef(proxy: any): void {
-  globalProxyRef = proxy;
+export function setGlobalProxyRef(proxy: any, context: PersistenceContext = defaultPersistenceContext): void {
+  context.proxyRef = proxy;
+  persistenceContextMap.set(proxy, context);
 }
 
-// Batch persistence state — stores persistence *roots* (e.g. "user", "todos"),
-// not individual leaf paths like "user.preferences.theme".
-const persistenceBatch = {
-  roots: new Set<string>(),
-  timeoutId: null as NodeJS.Timeout | null,
-  isPersisting: false,
-};
-
 // Performance timing helpers
 function logTimestamp(action: string): number {
   if (!monitoringConfig.enabled || !monitoringConfig.logTimings) return 0;
@@ -79,8 +237,8 @@ function logTimingEnd(action: string, startTime: number): number {
  * 2. Otherwise, use the first segment of the path (top-level key),
  *    so "user.preferences.theme" → "user".
  */
-function getPersistenceRoot(changePath: string): string {
-  const configuredPaths = persistenceConfig.paths;
+function getPersistenceRoot(changePath: string, config: PersistenceConfig): string {
+  const configuredPaths = config.paths;
 
   if (configuredPaths && configuredPaths.length > 0) {
     // Find the configured path that is a parent of (or equal to) the change path
@@ -100,28 +258,51 @@ function getPersistenceRoot(changePath: string): string {
 /**
  * Check if a change path should be persisted (respects blacklist + paths config).
  */
-function shouldPersistPath(path: string): boolean {
-  if (!persistenceConfig.enabled) return false;
+function shouldPersistPath(path: string, config: PersistenceConfig): boolean {
+  if (!config.enabled) return false;
 
   // Check if path (or any of its ancestors) is blacklisted
   const segments = path.split('.');
   for (let i = 1; i <= segments.length; i++) {
     const ancestor = segments.slice(0, i).join('.');
-    if (persistenceConfig.blacklist.some(b => b === ancestor)) {
+    if (config.blacklist.some(b => b === ancestor)) {
       return false;
     }
   }
 
   // If paths array is empty/undefined, persist everything not blacklisted
-  if (!persistenceConfig.paths || persistenceConfig.paths.length === 0) return true;
+  if (!config.paths || config.paths.length === 0) return true;
 
   // Check if path falls under one of the configured persistence paths
-  return persistenceConfig.paths.some(persistedPath =>
+  return config.paths.some(persistedPath =>
     path === persistedPath ||
     path.startsWith(`${persistedPath}.`) ||
     persistedPath.startsWith(`${path}.`));
 }
 
+/**
+ * Run writes made through the proxy (hydration, server state, other tabs)
+ * without persisting them. Listeners are notified as usual.
+ *
+ * @param paths - The paths `write` assigns, so their deferred notifications
+ *                can be recognized when it runs inside a batch
+ */
+export function writeWithoutPersisting(context: PersistenceContext, paths: string[][], write: () => void): void {
+  const wasHydrating = context.isHydrating;
+  context.isHydrating = true;
+  try {
+    write();
+  } finally {
+    context.isHydrating = wasHydrating;
+  }
+
+  if (isBatching()) {
+    paths.forEach(path => {
+      context.unpersistedWrites.set(path.join('.'), resolvePath(context.storeRef, path));
+    });
+  }
+}
+
 /**
  * Add a changed path to the persistence batch.
  *
@@ -129,36 +310,51 @@ function shouldPersistPath(path: string): boolean {
  * so multiple changes within the same slice (e.g. "user.name" and
  * "user.preferences.theme") are deduplicated into a single "user" persist.
  */
-export function addToPersistenceBatch(path: string[]): void {
-  if (!persistenceConfig.enabled || isHydrating || !hasHydrated) return;
+export function addToPersistenceBatch(
+  path: string[],
+  context: PersistenceContext = defaultPersistenceContext
+): void {
+  if (!context.config.enabled || context.isHydrating || !context.hasHydrated) return;
+  // Nowhere to write to, so don't queue roots or schedule a timer
+  if (!canPersist(context)) return;
 
   const pathKey = path.join('.');
-  if (shouldPersistPath(pathKey)) {
-    const root = getPersistenceRoot(pathKey);
-    persistenceBatch.roots.add(root);
-    schedulePersistenceBatch();
+  if (context.unpersistedWrites.has(pathKey)) {
+    const written = context.unpersistedWrites.get(pathKey);
+    context.unpersistedWrites.delete(pathKey);
+    if (Object.is(written, resolvePath(context.storeRef, path))) return;
+  }
+
+  if (shouldPersistPath(pathKey, context.config)) {
+    const root = getPersistenceRoot(pathKey, context.config);
+    context.batch.roots.add(root);
+    schedulePersistenceBatch(context);
   }
 }
 
 /**
  * Schedule batch persistence with debounce
  */
-function schedulePersistenceBatch(): void {
+function schedulePersistenceBatch(context: PersistenceContext): void {
+  const persistenceBatch = context.batch;
+
   if (persistenceBatch.timeoutId) {
     clearTimeout(persistenceBatch.timeoutId);
   }
 
   persistenceBatch.timeoutId = setTimeout(() => {
     persistenceBatch.timeoutId = null;
-    processPersistenceBatch();
-  }, persistenceConfig.batchDelay);
+    processPersistenceBatch(context);
+  }, context.config.batchDelay);
 }
 
 /**
  * Process all roots in the batch — persist each root-level slice.
  */
-function processPersistenceBatch(): void {
-  if (typeof window === 'undefined') return;
+function processPersistenceBatch(context: PersistenceContext): void {
+  if (!canPersist(context)) return;
+
+  const persistenceBatch = context.batch;
 
   if (persistenceBatch.isPersisting || persistenceBatch.roots.size === 0) {
     return;
@@ -176,7 +372,7 @@ function processPersistenceBatch(): void {
     persistenceBatch.roots.clear();
 
     roots.forEach(root => {
-      persistSlice(root);
+      persistSlice(root, context);
     });
   } catch (e) {
     console.error('Error during batch persistence:', e);
@@ -185,7 +381,7 @@ function processPersistenceBatch(): void {
 
     // If new roots were added during processing, schedule another batch
     if (persistenceBatch.roots.size > 0) {
-      schedulePersistenceBatch();
+      schedulePersistenceBatch(context);
     }
 
     if (monitoringConfig.enabled && monitoringConfig.logPersistence && startTime > 0) {
@@ -194,24 +390,33 @@ function processPersistenceBatch(): void {
   }
 }
 
+/**
+ * Persist the pending batch now instead of waiting for the debounce timer
+ */
+function flushPersistenceBatch(context: PersistenceContext): void {
+  if (context.batch.timeoutId) {
+    clearTimeout(context.batch.timeoutId);
+    context.batch.timeoutId = null;
+  }
+  processPersistenceBatch(context);
+}
+
 /**
  * Persist a single slice of the store to storage.
  *
  * @param rootPath - Dot-separated path like "user" or "user.preferences".
  *                   The entire value at this path is serialized as one entry.
  */
-function persistSlice(rootPath: string): void {
-  if (!persistenceConfig.enabled) return;
-  if (!globalStoreRef) {
+function persistSlice(rootPath: string, context: PersistenceContext): void {
+  if (!context.config.enabled) return;
+  if (!context.storeRef) {
     console.warn('Cannot persist state without store reference. Call configure() first.');
     return;
   }
 
-  const adapter = getStorageAdapter();
-
   // Navigate to the value at this path in the store
   const segments = rootPath.split('.');
-  let value: any = globalStoreRef;
+  let value: any = context.storeRef;
   for (const segment of segments) {
     if (value === undefined || value === null) return;
     value = value[segment];
@@ -219,35 +424,168 @@ function persistSlice(rootPath: string): void {
 
   if (value === undefined) return;
 
+  const timestamp = Date.now();
+  let serialized: string;
   try {
-    const serialized = JSON.stringify(value);
-    const storageKey = `${PERSISTED_STATE_KEY}_${rootPath}`;
-    const result = adapter.setItem(storageKey, serialized);
-    if (result && typeof (result as any).catch === 'function') {
-      (result as Promise<void>).catch(e => {
-        console.error(`Error persisting slice "${rootPath}":`, e);
-      });
-    }
+    serialized = wrapEnvelope(value, { version: context.config.version ?? 0, timestamp });
   } catch (e) {
-    // JSON.stringify can fail on circular references or functions — that's fine,
+    // Serialization can fail on circular references or functions — that's fine,
     // non-serializable values just won't be persisted.
     if (monitoringConfig.enabled) {
       console.warn(`Could not serialize slice "${rootPath}" for persistence:`, e);
     }
+    return;
+  }
+
+  context.timestamps.set(rootPath, timestamp);
+  writeSlice(context, rootPath, serialized);
+
+  if (context.broadcast) {
+    context.broadcast(rootPath, serialized);
+  }
+}
+
+/**
+ * Whether a storage error means the quota is exhausted (the name and code
+ * differ between browsers)
+ */
+function isQuotaExceededError(error: any): boolean {
+  if (!error || typeof error !== 'object') return false;
+  return (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22 ||
+    error.code === 1014
+  );
+}
+
+/**
+ * Write a serialized slice. When storage is full, lower-priority roots are
+ * evicted (`evict`) and the write is repeated; failed writes to async adapters
+ * are retried with backoff. Anything else is reported through `onError`.
+ */
+function writeSlice(context: PersistenceContext, rootPath: string, serialized: string): void {
+  const adapter = getAdapter(context);
+  const storageKey = `${getStateKey(context)}_${rootPath}`;
+
+  const onFailure = (error: unknown, isAsync: boolean) => {
+    if (isQuotaExceededError(error)) {
+      const eviction = evictLowerPriorityRoot(context, rootPath);
+      if (eviction) {
+        if (isPromiseLike(eviction.removal)) {
+          eviction.removal.then(() => writeSlice(context, rootPath, serialized), e => reportWriteFailure(context, rootPath, e, serialized.length));
+        } else {
+          writeSlice(context, rootPath, serialized);
+        }
+        return;
+      }
+    }
+
+    const attempts = context.failures.roots.get(rootPath) ?? 0;
+    if (isAsync && attempts < (context.config.maxRetries ?? 3)) {
+      context.failures.roots.set(rootPath, attempts + 1);
+      scheduleRetry(context, rootPath, (context.config.retryDelay ?? 500) * Math.pow(2, attempts));
+      return;
+    }
+
+    reportWriteFailure(context, rootPath, error, serialized.length);
+  };
+
+  let result: MaybePromise<void>;
+  try {
+    result = adapter.setItem(storageKey, serialized);
+  } catch (e) {
+    onFailure(e, false);
+    return;
+  }
+
+  if (isPromiseLike(result)) {
+    result.then(() => markWriteSucceeded(context, rootPath), e => onFailure(e, true));
+  } else {
+    markWriteSucceeded(context, rootPath);
+  }
+}
+
+/**
+ * Persist a failed root again after `delay` — from the current state, so a
+ * retry never writes back stale data
+ */
+function scheduleRetry(context: PersistenceContext, rootPath: string, delay: number): void {
+  const timeoutId = setTimeout(() => {
+    context.failures.retryTimeouts.delete(timeoutId);
+    if (context.failures.roots.has(rootPath)) {
+      persistSlice(rootPath, context);
+    }
+  }, delay);
+  context.failures.retryTimeouts.add(timeoutId);
+}
+
+/**
+ * Remove the lowest-priority persisted root that ranks below `rootPath` in
+ * `evict`, to free space for it.
+ *
+ * @returns The adapter's removal result, or `null` if there is nothing left to evict
+ */
+function evictLowerPriorityRoot(
+  context: PersistenceContext,
+  rootPath: string
+): { removal: MaybePromise<void> } | null {
+  const order = context.config.evict;
+  if (!order) return null;
+
+  const index = order.indexOf(rootPath);
+  const candidates = index === -1 ? order : order.slice(0, index);
+  const victim = candidates.find(root => !context.evicted.has(root));
+  if (victim === undefined) return null;
+
+  context.evicted.add(victim);
+  context.timestamps.delete(victim);
+  console.warn(`🗑️ Storage is full — evicted persisted slice "${victim}" to make room for "${rootPath}"`);
+
+  try {
+    return { removal: getAdapter(context).removeItem(`${getStateKey(context)}_${victim}`) };
+  } catch (e) {
+    return { removal: Promise.reject(e) };
+  }
+}
+
+function markWriteSucceeded(context: PersistenceContext, rootPath: string): void {
+  context.failures.roots.delete(rootPath);
+  context.evicted.delete(rootPath);
+}
+
+/**
+ * Record a write that failed for good and pass it to `onError` (or the console)
+ */
+function reportWriteFailure(context: PersistenceContext, rootPath: string, error: unknown, size: number): void {
+  if (!context.failures.roots.has(rootPath)) {
+    context.failures.roots.set(rootPath, 0);
+  }
+  context.failures.lastError = { error, root: rootPath, timestamp: Date.now() };
+
+  const onError = context.config.onError;
+  if (onError) {
+    try {
+      onError(error, { root: rootPath, size });
+    } catch (e) {
+      console.error('Error in persistence onError handler:', e);
+    }
+  } else {
+    console.error(`Error persisting slice "${rootPath}":`, error);
   }
 }
 
 /**
  * Persist the entire store as one entry (used by persistenceAPI.persist).
  */
-function persistEntireState(): void {
-  if (!persistenceConfig.enabled || !globalStoreRef) return;
+function persistEntireState(context: PersistenceContext): void {
+  if (!context.config.enabled || !context.storeRef) return;
 
-  const adapter = getStorageAdapter();
+  const adapter = getAdapter(context);
 
   try {
-    const serialized = JSON.stringify(globalStoreRef);
-    const result = adapter.setItem(PERSISTED_STATE_KEY, serialized);
+    const serialized = wrapEnvelope(context.storeRef, { version: context.config.version ?? 0, timestamp: Date.now() });
+    const result = adapter.setItem(getStateKey(context), serialized);
     if (result && typeof (result as any).catch === 'function') {
       (result as Promise<void>).catch(e => {
         console.error('Error persisting entire state:', e);
@@ -258,6 +596,187 @@ function persistEntireState(): void {
   }
 }
 
+/**
+ * Decode a stored slice: unwrap its envelope, run pending migrations and
+ * validate the result.
+ *
+ * Migrated slices are written back at the current version. Slices whose
+ * migration throws are quarantined (or discarded, per `onMigrationError`)
+ * and skipped, as are slices that fail validation, so the store keeps its
+ * initial value for them. Slices older than their `ttl` are removed and skipped.
+ *
+ * @param key - The slice's storage key
+ * @param rootPath - The slice's root path ('' for the full-state blob)
+ * @returns The slice value, or `null` if the slice must be skipped
+ * @throws If the stored value is malformed
+ */
+function decodeSlice(
+  context: PersistenceContext,
+  key: string,
+  rootPath: string,
+  serialized: string
+): { value: any } | null {
+  const config = context.config;
+  const envelope = unwrapEnvelope(serialized);
+  let value = envelope.data;
+
+  if (rootPath) {
+    if (envelope.timestamp !== undefined) {
+      context.timestamps.set(rootPath, envelope.timestamp);
+    }
+
+    if (isExpired(config, rootPath, envelope.timestamp)) {
+      context.timestamps.delete(rootPath);
+      reportAdapterError(() => getAdapter(context).removeItem(key), `Error removing expired slice "${rootPath}":`);
+      if (monitoringConfig.enabled) {
+        console.log(`⌛ Persisted slice "${rootPath}" expired — using initial state`);
+      }
+      return null;
+    }
+  }
+
+  if (needsMigration(envelope.version, config)) {
+    const migrated = runMigrations(context, key, rootPath, serialized, envelope, value);
+    if (!migrated) return null;
+    value = migrated.value;
+  }
+
+  const validated = validateSlice(context, rootPath, value);
+
+  // The full-state blob has one write time — drop its expired top-level keys
+  if (!rootPath && validated && validated.value && typeof validated.value === 'object') {
+    const fresh: Record<string, any> = {};
+    Object.keys(validated.value).forEach(root => {
+      if (!isExpired(config, root, envelope.timestamp)) fresh[root] = validated.value[root];
+    });
+    return { value: fresh };
+  }
+
+  return validated;
+}
+
+/**
+ * The TTL configured for a root path, or for its closest configured ancestor
+ */
+function getTtl(config: PersistenceConfig, rootPath: string): number | undefined {
+  const ttl = config.ttl;
+  if (!ttl) return undefined;
+
+  const segments = rootPath.split('.');
+  for (let i = segments.length; i > 0; i--) {
+    const path = segments.slice(0, i).join('.');
+    if (ttl[path] !== undefined) return ttl[path];
+  }
+  return undefined;
+}
+
+/**
+ * Whether a slice written at `timestamp` has outlived its TTL. Slices without
+ * a write time (written before TTL support) never expire.
+ */
+function isExpired(config: PersistenceConfig, rootPath: string, timestamp: number | undefined): boolean {
+  const ttl = getTtl(config, rootPath);
+  return ttl !== undefined && timestamp !== undefined && Date.now() - timestamp >= ttl;
+}
+
+function runMigrations(
+  context: PersistenceContext,
+  key: string,
+  rootPath: string,
+  serialized: string,
+  envelope: PersistedEnvelope,
+  value: unknown
+): { value: any } | null {
+  const config = context.config;
+  const fromVersion = envelope.version;
+  const adapter = getAdapter(context);
+  const label = rootPath || '(full state)';
+
+  let migrated: unknown;
+  try {
+    migrated = migrateSlice(rootPath, value, fromVersion, config);
+  } catch (e) {
+    console.error(`Migration of persisted slice "${label}" from version ${fromVersion} failed:`, e);
+    emitMonitoringEvent({
+      type: 'migrationFailed',
+      namespace: context.namespace,
+      path: rootPath,
+      fromVersion,
+      error: e,
+      timestamp: Date.now(),
+    });
+
+    if (config.onMigrationError !== 'discard') {
+      const quarantineKey = rootPath ? `${getQuarantineKey(context)}_${rootPath}` : getQuarantineKey(context);
+      reportAdapterError(() => adapter.setItem(quarantineKey, serialized), `Error quarantining slice "${label}":`);
+    }
+    reportAdapterError(() => adapter.removeItem(key), `Error removing slice "${label}":`);
+    return null;
+  }
+
+  // A migration may drop a slice entirely
+  if (migrated === undefined) {
+    reportAdapterError(() => adapter.removeItem(key), `Error removing slice "${label}":`);
+    return null;
+  }
+
+  // Keep the original write time, so migrating doesn't extend the TTL
+  const rewritten = wrapEnvelope(migrated, { version: config.version ?? 0, timestamp: envelope.timestamp });
+  reportAdapterError(() => adapter.setItem(key, rewritten), `Error saving migrated slice "${label}":`);
+
+  if (monitoringConfig.enabled) {
+    console.log(`🔀 Migrated persisted slice "${label}" from version ${fromVersion} to ${config.version}`);
+  }
+
+  return { value: migrated };
+}
+
+/**
+ * Run the configured validator for a slice. For the full-state blob, each
+ * top-level key with a validator is checked and invalid keys are dropped.
+ */
+function validateSlice(
+  context: PersistenceContext,
+  rootPath: string,
+  value: any
+): { value: any } | null {
+  const validators = context.config.validate;
+  if (!validators) return { value };
+
+  const check = (path: string, sliceValue: unknown): { value: any } | null => {
+    const validator = validators[path];
+    if (!validator) return { value: sliceValue };
+
+    const result = runValidator(validator, sliceValue);
+    if (result.valid) return { value: result.value };
+
+    if (monitoringConfig.enabled) {
+      console.warn(`⚠️ Persisted slice "${path}" failed validation — using initial state`, result.error);
+    }
+    emitMonitoringEvent({
+      type: 'validationFailed',
+      namespace: context.namespace,
+      path,
+      error: result.error,
+      timestamp: Date.now(),
+    });
+    return null;
+  };
+
+  if (rootPath) {
+    return check(rootPath, value);
+  }
+
+  if (!value || typeof value !== 'object') return { value };
+
+  const validated: Record<string, any> = {};
+  Object.keys(value).forEach(key => {
+    const result = check(key, value[key]);
+    if (result) validated[key] = result.value;
+  });
+  return { value: validated };
+}
+
 /**
  * Check if a value is a Promise/thenable.
  */
@@ -278,16 +797,19 @@ function isPromiseLike(value: any): value is Promise<any> {
  * and the caller falls back to the async `hydrateState()` path.
  *
  * @param initialState - The default state from the user's config. Not mutated.
+ * @param context - The persistence context of the store being built
  * @returns A new state object with persisted data merged in, or `null` if the
  *          adapter is async and synchronous merge isn't possible.
  */
 export function mergePersistedIntoState(
-  initialState: Record<string, any>
+  initialState: Record<string, any>,
+  context: PersistenceContext = defaultPersistenceContext
 ): Record<string, any> | null {
-  // No localStorage on the server
-  if (typeof window === 'undefined') return null;
+  // No localStorage on the server, unless an adapter was configured
+  if (!canPersist(context)) return null;
 
-  const adapter = getStorageAdapter();
+  const adapter = getAdapter(context);
+  const stateKey = getStateKey(context);
 
   // Cached/async adapters can't be read synchronously
   if (typeof (adapter as any).warmCache === 'function') return null;
@@ -297,12 +819,13 @@ export function mergePersistedIntoState(
     const merged: Record<string, any> = { ...initialState };
 
     // --- Full state blob (from persistenceAPI.persist) ---
-    const fullResult = adapter.getItem(PERSISTED_STATE_KEY);
+    const fullResult = adapter.getItem(stateKey);
     if (isPromiseLike(fullResult)) return null;
 
     if (fullResult) {
       try {
-        const parsed = JSON.parse(fullResult as string);
+        const decoded = decodeSlice(context, stateKey, '', fullResult as string);
+        const parsed = decoded && decoded.value && typeof decoded.value === 'object' ? decoded.value : {};
         Object.keys(parsed).forEach(key => {
           if (key in merged) merged[key] = parsed[key];
         });
@@ -315,16 +838,16 @@ export function mergePersistedIntoState(
 
     const allKeys = keysResult as string[];
     const sliceKeys = allKeys
-      .filter(key => key.startsWith(`${PERSISTED_STATE_KEY}_`))
+      .filter(key => key.startsWith(`${stateKey}_`))
       .sort((a, b) => a.split('.').length - b.split('.').length);
 
     const hydratedRoots = new Set<string>();
 
     for (const key of sliceKeys) {
-      const pathStr = key.replace(`${PERSISTED_STATE_KEY}_`, '');
+      const pathStr = key.slice(stateKey.length + 1);
 
       // Respect blacklist
-      if (!shouldPersistPath(pathStr)) continue;
+      if (!shouldPersistPath(pathStr, context.config)) continue;
 
       // Skip child entries if a parent was already merged
       const isChild = Array.from(hydratedRoots).some(root =>
@@ -338,7 +861,10 @@ export function mergePersistedIntoState(
       const value = valueResult as string | null;
       if (value) {
         try {
-          const parsedValue = JSON.parse(value);
+          const decoded = decodeSlice(context, key, pathStr, value);
+          if (!decoded) continue;
+
+          const parsedValue = decoded.value;
           const segments = pathStr.split('.');
 
           if (segments.length === 1) {
@@ -366,7 +892,7 @@ export function mergePersistedIntoState(
       }
     }
 
-    hasHydrated = true;
+    context.hasHydrated = true;
 
     if (monitoringConfig.enabled && hydratedRoots.size > 0) {
       console.log(`🔄 Merged ${hydratedRoots.size} persisted slices into initial state`);
@@ -387,17 +913,22 @@ export function mergePersistedIntoState(
  *
  * @param store - The store object to hydrate into. If omitted, uses the
  *                global store set by `configure()`.
+ * @param context - The persistence context to read from (the default store's by default)
  */
-export async function hydrateState(store?: any): Promise<boolean> {
+export async function hydrateState(
+  store?: any,
+  context: PersistenceContext = defaultPersistenceContext
+): Promise<boolean> {
   // Prefer writing through the proxy so that set traps fire and components
   // re-render with the hydrated values. Fall back to the raw store ref.
-  const writeTarget = store || globalProxyRef || globalStoreRef;
+  const writeTarget = store || context.proxyRef || context.storeRef;
   if (!writeTarget) {
     console.warn('Cannot hydrate state without store reference. Call configure() first or pass a store.');
     return false;
   }
 
-  const adapter = getStorageAdapter();
+  const adapter = getAdapter(context);
+  const stateKey = getStateKey(context);
 
   // If the adapter has a cache layer, warm it first so reads below are fast
   if (typeof (adapter as any).warmCache === 'function') {
@@ -406,13 +937,14 @@ export async function hydrateState(store?: any): Promise<boolean> {
 
   // Suppress persistence during hydration — writing through the proxy triggers
   // the persistence callback, but we don't want to re-persist data we just loaded.
-  isHydrating = true;
+  context.isHydrating = true;
 
   try {
     // First try to load the entire state blob (from persistenceAPI.persist)
-    const savedState = await adapter.getItem(PERSISTED_STATE_KEY);
-    if (savedState) {
-      const parsedState = JSON.parse(savedState);
+    const savedState = await adapter.getItem(stateKey);
+    const decodedState = savedState ? decodeSlice(context, stateKey, '', savedState) : null;
+    if (decodedState && decodedState.value && typeof decodedState.value === 'object') {
+      const parsedState = decodedState.value;
 
       Object.keys(parsedState).forEach(key => {
         if (key in writeTarget) {
@@ -432,7 +964,7 @@ export async function hydrateState(store?: any): Promise<boolean> {
     // Collect slice keys and sort by depth (shortest first) so parent slices
     // are applied before child slices, ensuring correct overwrite order.
     const sliceKeys = allKeys
-      .filter(key => key.startsWith(`${PERSISTED_STATE_KEY}_`))
+      .filter(key => key.startsWith(`${stateKey}_`))
       .sort((a, b) => a.split('.').length - b.split('.').length);
 
     // Track which root paths we've already hydrated so we don't
@@ -440,7 +972,7 @@ export async function hydrateState(store?: any): Promise<boolean> {
     const hydratedRoots = new Set<string>();
 
     for (const key of sliceKeys) {
-      const pathStr = key.replace(`${PERSISTED_STATE_KEY}_`, '');
+      const pathStr = key.slice(stateKey.length + 1);
 
       // Skip this entry if a parent slice was already hydrated
       // (prevents old fragmented entries from overwriting clean slice data)
@@ -454,7 +986,10 @@ export async function hydrateState(store?: any): Promise<boolean> {
 
       if (value) {
         try {
-          const parsedValue = JSON.parse(value);
+          const decoded = decodeSlice(context, key, pathStr, value);
+          if (!decoded) continue;
+
+          const parsedValue = decoded.value;
 
           // Navigate to the parent in the store, writing through the proxy
           // so that set traps fire and components re-render.
@@ -484,10 +1019,10 @@ export async function hydrateState(store?: any): Promise<boolean> {
     console.error('Error hydrating state:', e);
     return false;
   } finally {
-    isHydrating = false;
+    context.isHydrating = false;
     // Enable persistence now that the store has been hydrated.
     // Any writes from this point forward are intentional user changes.
-    hasHydrated = true;
+    context.hasHydrated = true;
   }
 
   return true;
@@ -496,16 +1031,17 @@ export async function hydrateState(store?: any): Promise<boolean> {
 /**
  * Load persistence configuration
  */
-export async function loadPersistenceConfig(): Promise<void> {
-  const adapter = getStorageAdapter();
+export async function loadPersistenceConfig(
+  context: PersistenceContext = defaultPersistenceContext
+): Promise<void> {
+  const adapter = getAdapter(context);
 
   try {
-    const config = await adapter.getItem(PERSISTENCE_CONFIG_KEY);
+    const config = await adapter.getItem(getConfigKey(context));
     if (config) {
       const parsedConfig = JSON.parse(config);
-      // Only restore serializable config fields (not the adapter itself, not autoHydrate)
-      const { storageAdapter: _a, autoHydrate: _b, ...restConfig } = parsedConfig;
-      Object.assign(persistenceConfig, restConfig);
+      // Only restore runtime settings (not the adapter itself, autoHydrate or the schema version)
+      Object.assign(context.config, omitCodeOnlyConfig(parsedConfig));
     }
   } catch (e) {
     console.error('Error loading persistence configuration:', e);
@@ -515,13 +1051,13 @@ export async function loadPersistenceConfig(): Promise<void> {
 /**
  * Save persistence configuration (excluding non-serializable fields)
  */
-export function savePersistenceConfig(): void {
-  const adapter = getStorageAdapter();
+export function savePersistenceConfig(context: PersistenceContext = defaultPersistenceContext): void {
+  const adapter = getAdapter(context);
 
   try {
-    // Exclude the storageAdapter and autoHydrate from serialization
-    const { storageAdapter: _a, autoHydrate: _b, ...serializableConfig } = persistenceConfig;
-    const result = adapter.setItem(PERSISTENCE_CONFIG_KEY, JSON.stringify(serializableConfig));
+    // Exclude code-only fields (storageAdapter, autoHydrate, version...) from serialization
+    const serializableConfig = omitCodeOnlyConfig(context.config);
+    const result = adapter.setItem(getConfigKey(context), JSON.stringify(serializableConfig));
     if (result && typeof (result as any).catch === 'function') {
       (result as Promise<void>).catch(e => {
         console.error('Error saving persistence configuration:', e);
@@ -532,137 +1068,271 @@ export function savePersistenceConfig(): void {
   }
 }
 
+/**
+ * Build the persistence API for a store's persistence context.
+ */
+export function createPersistenceAPI(context: PersistenceContext) {
+  return {
+    // Enable or disable persistence
+    setEnabled: (enabled: boolean) => {
+      context.config.enabled = enabled;
+      savePersistenceConfig(context);
+    },
+
+    // Add paths to be persisted
+    persistPaths: (paths: string[]) => {
+      if (!context.config.paths) {
+        context.config.paths = [];
+      }
+      context.config.paths = Array.from(new Set([...context.config.paths, ...paths]));
+      savePersistenceConfig(context);
+      // Force persist current state for these paths
+      paths.forEach(path => addToPersistenceBatch(path.split('.'), context));
+    },
+
+    // Remove paths from persistence
+    unpersistPaths: (paths: string[]) => {
+      if (context.config.paths) {
+        context.config.paths = context.config.paths.filter(p => !paths.includes(p));
+        savePersistenceConfig(context);
+      }
+      // Remove from storage
+      const adapter = getAdapter(context);
+      paths.forEach(path => {
+        const result = adapter.removeItem(`${getStateKey(context)}_${path}`);
+        if (result && typeof (result as any).catch === 'function') {
+          (result as Promise<void>).catch(e => {
+            console.error(`Error removing persisted path "${path}":`, e);
+          });
+        }
+      });
+    },
+
+    // Add paths to blacklist
+    blacklistPaths: (paths: string[]) => {
+      context.config.blacklist = Array.from(new Set([...context.config.blacklist, ...paths]));
+      savePersistenceConfig(context);
+      // Remove from storage
+      const adapter = getAdapter(context);
+      paths.forEach(path => {
+        const result = adapter.removeItem(`${getStateKey(context)}_${path}`);
+        if (result && typeof (result as any).catch === 'function') {
+          (result as Promise<void>).catch(e => {
+            console.error(`Error removing blacklisted path "${path}":`, e);
+          });
+        }
+      });
+    },
+
+    // Remove paths from blacklist
+    unblacklistPaths: (paths: string[]) => {
+      context.config.blacklist = context.config.blacklist.filter(p => !paths.includes(p));
+      savePersistenceConfig(context);
+    },
+
+    // Get current persistence configuration
+    getConfig: () => ({ ...context.config }),
+
+    // Set the batch delay (in ms)
+    setBatchDelay: (delay: number) => {
+      context.config.batchDelay = delay;
+      savePersistenceConfig(context);
+    },
+
+    // Reset persistence — clears all persisted data and resets config to defaults
+    reset: async () => {
+      const adapter = getAdapter(context);
+
+      // Use clear() if available, otherwise iterate and remove. Namespaced
+      // stores share the adapter with other stores, so only remove their own keys.
+      if (adapter.clear && !context.namespace) {
+        await adapter.clear();
+      } else {
+        const stateKey = getStateKey(context);
+        const configKey = getConfigKey(context);
+        const quarantineKey = getQuarantineKey(context);
+        const keys = await adapter.keys();
+        if (keys) {
+          for (const key of keys) {
+            if (key.startsWith(stateKey) || key.startsWith(quarantineKey) || key === configKey) {
+              await adapter.removeItem(key);
+            }
+          }
+        }
+      }
+
+      context.timestamps.clear();
+
+      // Reset configuration to defaults (preserve the current storageAdapter and autoHydrate)
+      const currentAdapter = context.config.storageAdapter;
+      const currentAutoHydrate = context.config.autoHydrate;
+      Object.assign(context.config, {
+        enabled: true,
+        paths: [],
+        blacklist: [],
+        batchDelay: 300,
+        storageAdapter: currentAdapter,
+        autoHydrate: currentAutoHydrate,
+      });
+      savePersistenceConfig(context);
+    },
+
+    // Force persist the entire store as one blob
+    persist: () => persistEntireState(context),
+
+    // Force persist current batch immediately
+    flushBatch: () => flushPersistenceBatch(context),
+
+    /**
+     * Manually hydrate state from the backing storage adapter.
+     *
+     * Use this when `autoHydrate` is `false` and you want to control
+     * exactly when persisted data is loaded (e.g., after a splash screen).
+     *
+     * @param store - Optional store to hydrate into. Defaults to the global store.
+     */
+    rehydrate: (store?: any) => hydrateState(store, context),
+
+    /**
+     * Milliseconds until a persisted root expires (`0` once expired), or
+     * `null` if it has no `ttl` or hasn't been persisted or loaded yet.
+     */
+    getRemainingTTL: (root: string): number | null => {
+      const ttl = getTtl(context.config, root);
+      const timestamp = context.timestamps.get(root);
+      if (ttl === undefined || timestamp === undefined) return null;
+      return Math.max(0, timestamp + ttl - Date.now());
+    },
+
+    // Get batch status, including roots whose last write failed
+    getBatchStatus: () => ({
+      pendingRoots: Array.from(context.batch.roots),
+      isPersisting: context.batch.isPersisting,
+      batchSize: context.batch.roots.size,
+      failedRoots: Array.from(context.failures.roots.keys()),
+      lastError: context.failures.lastError,
+    }),
+  };
+}
+
+export type PersistenceAPI = ReturnType<typeof createPersistenceAPI>;
+
 /**
  * Persistence API — the public interface for controlling persistence at runtime.
  */
-export const persistenceAPI = {
-  // Enable or disable persistence
-  setEnabled: (enabled: boolean) => {
-    persistenceConfig.enabled = enabled;
-    savePersistenceConfig();
-  },
+export const persistenceAPI = createPersistenceAPI(defaultPersistenceContext);
 
-  // Add paths to be persisted
-  persistPaths: (paths: string[]) => {
-    if (!persistenceConfig.paths) {
-      persistenceConfig.paths = [];
-    }
-    persistenceConfig.paths = Array.from(new Set([...persistenceConfig.paths, ...paths]));
-    savePersistenceConfig();
-    // Force persist current state for these paths
-    paths.forEach(path => addToPersistenceBatch(path.split('.')));
-  },
+/**
+ * Apply a slice persisted by another tab, writing through the proxy so
+ * listeners fire. The write isn't persisted again (no echo back to the other tab).
+ */
+function applyRemoteSlice(context: PersistenceContext, rootPath: string, serialized: string): void {
+  const target = context.proxyRef;
+  if (!target || !shouldPersistPath(rootPath, context.config)) return;
 
-  // Remove paths from persistence
-  unpersistPaths: (paths: string[]) => {
-    if (persistenceConfig.paths) {
-      persistenceConfig.paths = persistenceConfig.paths.filter(p => !paths.includes(p));
-      savePersistenceConfig();
-    }
-    // Remove from storage
-    const adapter = getStorageAdapter();
-    paths.forEach(path => {
-      const result = adapter.removeItem(`${PERSISTED_STATE_KEY}_${path}`);
-      if (result && typeof (result as any).catch === 'function') {
-        (result as Promise<void>).catch(e => {
-          console.error(`Error removing persisted path "${path}":`, e);
-        });
-      }
-    });
-  },
+  let envelope;
+  try {
+    envelope = unwrapEnvelope(serialized);
+  } catch {
+    return;
+  }
 
-  // Add paths to blacklist
-  blacklistPaths: (paths: string[]) => {
-    persistenceConfig.blacklist = Array.from(new Set([...persistenceConfig.blacklist, ...paths]));
-    savePersistenceConfig();
-    // Remove from storage
-    const adapter = getStorageAdapter();
-    paths.forEach(path => {
-      const result = adapter.removeItem(`${PERSISTED_STATE_KEY}_${path}`);
-      if (result && typeof (result as any).catch === 'function') {
-        (result as Promise<void>).catch(e => {
-          console.error(`Error removing blacklisted path "${path}":`, e);
-        });
-      }
-    });
-  },
+  // Tabs running a different schema version can't share slices — the next
+  // reload migrates them
+  if (envelope.version !== (context.config.version ?? 0)) return;
 
-  // Remove paths from blacklist
-  unblacklistPaths: (paths: string[]) => {
-    persistenceConfig.blacklist = persistenceConfig.blacklist.filter(p => !paths.includes(p));
-    savePersistenceConfig();
-  },
+  const validated = validateSlice(context, rootPath, envelope.data);
+  if (!validated) return;
 
-  // Get current persistence configuration
-  getConfig: () => ({ ...persistenceConfig }),
+  if (envelope.timestamp !== undefined) {
+    context.timestamps.set(rootPath, envelope.timestamp);
+  }
 
-  // Set the batch delay (in ms)
-  setBatchDelay: (delay: number) => {
-    persistenceConfig.batchDelay = delay;
-    savePersistenceConfig();
-  },
+  const segments = rootPath.split('.');
+  const lastKey = segments[segments.length - 1];
+  let parent: any = target;
+  for (const segment of segments.slice(0, -1)) {
+    if (parent[segment] === undefined || parent[segment] === null) return;
+    parent = parent[segment];
+  }
 
-  // Reset persistence — clears all persisted data and resets config to defaults
-  reset: async () => {
-    const adapter = getStorageAdapter();
-
-    // Use clear() if available, otherwise iterate and remove
-    if (adapter.clear) {
-      await adapter.clear();
-    } else {
-      const keys = await adapter.keys();
-      if (keys) {
-        for (const key of keys) {
-          if (key.startsWith(PERSISTED_STATE_KEY)) {
-            await adapter.removeItem(key);
-          }
-        }
+  // Skip slices that already match (e.g. the same change received twice)
+  if (serializeState(parent[lastKey]) === serializeState(validated.value)) return;
+
+  writeWithoutPersisting(context, [segments], () => {
+    parent[lastKey] = validated.value;
+  });
+
+  if (monitoringConfig.enabled && monitoringConfig.logPersistence) {
+    console.log(`🔁 Applied slice "${rootPath}" from another tab`);
+  }
+}
+
+/**
+ * Re-read every persisted slice and apply the ones that differ from the store.
+ * Used with `storage` events, which don't identify our slices reliably.
+ */
+async function syncFromStorage(context: PersistenceContext): Promise<void> {
+  const adapter = getAdapter(context);
+  const prefix = `${getStateKey(context)}_`;
+
+  try {
+    const keys = await adapter.keys();
+    for (const key of keys.filter(key => key.startsWith(prefix))) {
+      const value = await adapter.getItem(key);
+      if (value) {
+        applyRemoteSlice(context, key.slice(prefix.length), value);
       }
     }
+  } catch (e) {
+    console.error('Error syncing state from another tab:', e);
+  }
+}
 
-    // Reset configuration to defaults (preserve the current storageAdapter and autoHydrate)
-    const currentAdapter = persistenceConfig.storageAdapter;
-    const currentAutoHydrate = persistenceConfig.autoHydrate;
-    Object.assign(persistenceConfig, {
-      enabled: true,
-      paths: [],
-      blacklist: [],
-      batchDelay: 300,
-      storageAdapter: currentAdapter,
-      autoHydrate: currentAutoHydrate,
-    });
-    savePersistenceConfig();
-  },
+/**
+ * Keep a store in sync with other tabs (`persistence.syncTabs`).
+ *
+ * Slices persisted in one tab are announced over a `BroadcastChannel` (one per
+ * namespace) and applied in the others. Where `BroadcastChannel` isn't
+ * available, `storage` events trigger a re-read of the persisted slices.
+ *
+ * @returns A function that stops syncing
+ */
+export function startTabSync(context: PersistenceContext = defaultPersistenceContext): () => void {
+  if (typeof window === 'undefined') return () => {};
 
-  // Force persist the entire store as one blob
-  persist: () => persistEntireState(),
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(`scope-state:${context.namespace || 'default'}`);
 
-  // Force persist current batch immediately
-  flushBatch: () => {
-    if (persistenceBatch.timeoutId) {
-      clearTimeout(persistenceBatch.timeoutId);
-      persistenceBatch.timeoutId = null;
+    channel.onmessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message && typeof message.rootPath === 'string' && typeof message.serialized === 'string') {
+        applyRemoteSlice(context, message.rootPath, message.serialized);
+      }
+    };
+    context.broadcast = (rootPath, serialized) => {
+      channel.postMessage({ rootPath, serialized });
+    };
+
+    return () => {
+      context.broadcast = null;
+      channel.close();
+    };
+  }
+
+  if (typeof window.addEventListener !== 'function') return () => {};
+
+  const stateKey = getStateKey(context);
+  const handleStorage = (event: StorageEvent) => {
+    // A null key means the storage was cleared
+    if (event.key === null || event.key.includes(`${stateKey}_`)) {
+      syncFromStorage(context);
     }
-    processPersistenceBatch();
-  },
+  };
 
-  /**
-   * Manually hydrate state from the backing storage adapter.
-   *
-   * Use this when `autoHydrate` is `false` and you want to control
-   * exactly when persisted data is loaded (e.g., after a splash screen).
-   *
-   * @param store - Optional store to hydrate into. Defaults to the global store.
-   */
-  rehydrate: (store?: any) => hydrateState(store),
-
-  // Get batch status
-  getBatchStatus: () => ({
-    pendingRoots: Array.from(persistenceBatch.roots),
-    isPersisting: persistenceBatch.isPersisting,
-    batchSize: persistenceBatch.roots.size,
-  }),
-};
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
 
 /**
  * Initialize persistence system.
@@ -670,18 +1340,100 @@ export const persistenceAPI = {
  * @param willAutoHydrate - Whether hydrateState will be called automatically.
  *   If false (autoHydrate disabled), persistence is enabled immediately since
  *   the developer will manually call rehydrate() when ready.
+ * @param context - The persistence context to initialize (the default store's by default)
  */
-export function initializePersistence(willAutoHydrate: boolean = true): void {
-  loadPersistenceConfig();
+export function initializePersistence(
+  willAutoHydrate: boolean = true,
+  context: PersistenceContext = defaultPersistenceContext
+): void {
+  loadPersistenceConfig(context);
 
   // If auto-hydration is disabled, the developer is in control.
   // Enable persistence immediately so state changes before manual rehydrate()
   // are captured. When they call rehydrate(), hasHydrated will be set again.
   if (!willAutoHydrate) {
-    hasHydrated = true;
+    context.hasHydrated = true;
   }
 
   if (typeof window !== 'undefined' && monitoringConfig.enabled) {
     console.log('💾 Persistence system initialized');
   }
 }
+
+// Stores flushed when the page is hidden or the process exits, with the
+// function that stops auto-flushing each one
+const autoFlushContexts = new Map<PersistenceContext, () => void>();
+let removePageListeners: (() => void) | null = null;
+
+function flushAllPersistenceBatches(): void {
+  autoFlushContexts.forEach((_stop, context) => flushPersistenceBatch(context));
+}
+
+/**
+ * Listen for the page being hidden (browsers) or the process exiting (Node).
+ * One set of listeners serves every store.
+ *
+ * @returns A function that removes the listeners
+ */
+function addPageListeners(): () => void {
+  if (typeof window !== 'undefined') {
+    if (typeof window.addEventListener !== 'function') return () => {};
+
+    // 'visibilitychange' is the last event that reliably fires on mobile;
+    // 'pagehide' covers browsers that skip it when a tab closes
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushAllPersistenceBatches();
+    };
+    const hasDocument = typeof document !== 'undefined' && typeof document.addEventListener === 'function';
+
+    window.addEventListener('pagehide', flushAllPersistenceBatches);
+    if (hasDocument) document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      window.removeEventListener('pagehide', flushAllPersistenceBatches);
+      if (hasDocument) document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }
+
+  const nodeProcess = (globalThis as any).process;
+  if (nodeProcess && typeof nodeProcess.on === 'function') {
+    nodeProcess.on('beforeExit', flushAllPersistenceBatches);
+    return () => nodeProcess.removeListener('beforeExit', flushAllPersistenceBatches);
+  }
+
+  return () => {};
+}
+
+/**
+ * Persist a store's pending changes as soon as the app goes away, rather than
+ * losing the last `batchDelay` ms of changes: on page hide in browsers, on
+ * `beforeExit` in Node, and whenever the `lifecycle` hook calls `flush`.
+ * Starting again for the same store replaces its previous registration.
+ *
+ * @returns A function that stops auto-flushing
+ */
+export function startAutoFlush(context: PersistenceContext = defaultPersistenceContext): () => void {
+  const previousStop = autoFlushContexts.get(context);
+  if (previousStop) previousStop();
+
+  const lifecycle = context.config.lifecycle;
+  const stopLifecycle = lifecycle ? lifecycle(() => flushPersistenceBatch(context)) : undefined;
+
+  const stop = () => {
+    if (autoFlushContexts.get(context) !== stop) return;
+    autoFlushContexts.delete(context);
+    if (typeof stopLifecycle === 'function') stopLifecycle();
+
+    if (autoFlushContexts.size === 0 && removePageListeners) {
+      removePageListeners();
+      removePageListeners = null;
+    }
+  };
+
+  autoFlushContexts.set(context, stop);
+  if (!removePageListeners) {
+    removePageListeners = addPageListeners();
+  }
+
+  return stop;
+}
@@ -0,0 +1,48 @@
+import { createCompressedAdapter } from './compressedAdapter';
+import { compressToUTF16, decompressFromUTF16 } from './lzString';
+import { createMemoryAdapter } from './adapters';
+
+describe('lzString', () => {
+  it('round-trips strings through UTF-16-safe output', () => {
+    const inputs = [
+      '',
+      'a',
+      JSON.stringify(Array.from({ length: 200 }, (_, i) => ({ id: i, title: `Todo ${i}`, done: i % 2 === 0 }))),
+      'naïve café — 日本語 🎉 '.repeat(20),
+    ];
+
+    for (const input of inputs) {
+      const compressed = compressToUTF16(input);
+      // Every character is in the 15-bit range offset by 32 (no surrogates)
+      expect(Array.from(compressed).every(char => char.charCodeAt(0) >= 32 && char.charCodeAt(0) < 32 + 32768)).toBe(true);
+      expect(decompressFromUTF16(compressed)).toBe(input);
+    }
+  });
+});
+
+describe('createCompressedAdapter', () => {
+  const catalog = JSON.stringify({ __scopeEnvelope: 1, version: 0, data: Array(500).fill({ sku: 'ABC', price: 10 }) });
+
+  it('compresses values above the threshold and stays synchronous', () => {
+    const backing = createMemoryAdapter();
+    const adapter = createCompressedAdapter(backing, { threshold: 100 });
+
+    adapter.setItem('catalog', catalog);
+    adapter.setItem('theme', '"dark"');
+
+    const stored = backing.getItem('catalog') as string;
+    expect(stored.startsWith('\u0001')).toBe(true);
+    expect(stored.length).toBeLessThan(catalog.length / 10);
+    expect(backing.getItem('theme')).toBe('"dark"');
+
+    expect(adapter.getItem('catalog')).toBe(catalog);
+    expect(adapter.getItem('theme')).toBe('"dark"');
+  });
+
+  it('reads uncompressed legacy values as is', () => {
+    const backing = createMemoryAdapter();
+    backing.setItem('catalog', catalog);
+
+    expect(createCompressedAdapter(backing).getItem('catalog')).toBe(catalog);
+  });
+});
@@ -0,0 +1,106 @@
+import type { MaybePromise, StorageAdapter } from '../types';
+import { compressToUTF16, decompressFromUTF16 } from './lzString';
+
+export interface CompressedAdapterOptions {
+  /**
+   * Values shorter than this (in characters) are stored uncompressed.
+   *  @default 1024
+   */
+  threshold?: number;
+}
+
+/**
+ * Header marking a compressed value. Persisted values are JSON, which never
+ * starts with a control character, so uncompressed values are read as is.
+ */
+const COMPRESSED_HEADER = '\u0001';
+
+function isPromiseLike(value: any): value is Promise<any> {
+  return value && typeof value.then === 'function';
+}
+
+/**
+ * Apply `transform` to a value that may be a promise, staying synchronous for sync adapters
+ */
+function mapMaybePromise<T, R>(value: MaybePromise<T>, transform: (value: T) => R): MaybePromise<R> {
+  return isPromiseLike(value) ? value.then(transform) : transform(value);
+}
+
+/**
+ * Wraps a StorageAdapter so large values are compressed (LZ, UTF-16-safe).
+ *
+ * Values at or above `threshold` characters are compressed when that makes
+ * them smaller; values written before compression was enabled (or below the
+ * threshold) are read as is. The wrapper is synchronous when the backing
+ * adapter is, so it works with `setStorageAdapter()` and synchronous hydration.
+ *
+ * @example
+ * import { configure, createCompressedAdapter, createLocalStorageAdapter } from 'scope-state';
+ *
+ * configure({
+ *   initialState: { ... },
+ *   persistence: {
+ *     storageAdapter: createCompressedAdapter(createLocalStorageAdapter(), { threshold: 2048 }),
+ *   },
+ * });
+ *
+ * @param backingAdapter - The adapter that stores the (compressed) values
+ * @returns A StorageAdapter that compresses on write and decompresses on read
+ */
+export function createCompressedAdapter(
+  backingAdapter: StorageAdapter,
+  options: CompressedAdapterOptions = {}
+): StorageAdapter {
+  const { threshold = 1024 } = options;
+
+  function decompressValue(key: string, value: string | null): string | null {
+    if (value === null || !value.startsWith(COMPRESSED_HEADER)) return value;
+
+    const decompressed = decompressFromUTF16(value.slice(COMPRESSED_HEADER.length));
+    if (decompressed === null) {
+      console.error(`[scope-state] Could not decompress "${key}"`);
+    }
+    return decompressed;
+  }
+
+  const adapter: StorageAdapter = {
+    getItem(key: string) {
+      return mapMaybePromise(backingAdapter.getItem(key), value => decompressValue(key, value));
+    },
+
+    setItem(key: string, value: string) {
+      if (value.length >= threshold) {
+        const compressed = COMPRESSED_HEADER + compressToUTF16(value);
+        if (compressed.length < value.length) {
+          return backingAdapter.setItem(key, compressed);
+        }
+      }
+      return backingAdapter.setItem(key, value);
+    },
+
+    removeItem(key: string) {
+      return backingAdapter.removeItem(key);
+    },
+
+    keys() {
+      return backingAdapter.keys();
+    },
+
+    clear() {
+      if (backingAdapter.clear) {
+        return backingAdapter.clear();
+      }
+    },
+  };
+
+  if (backingAdapter.entries) {
+    const entries = backingAdapter.entries.bind(backingAdapter);
+    adapter.entries = () => mapMaybePromise(entries(), pairs =>
+      pairs
+        .map(([key, value]): [string, string | null] => [key, decompressValue(key, value)])
+        .filter((pair): pair is [string, string] => pair[1] !== null)
+    );
+  }
+
+  return adapter;
+}
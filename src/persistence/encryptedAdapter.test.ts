@@ -0,0 +1,77 @@
+import { createEncryptedAdapter } from './encryptedAdapter';
+import { createCachedAdapter, createMemoryAdapter } from './adapters';
+import { createStore } from '../createStore';
+import { monitoringConfig } from '../config';
+
+describe('createEncryptedAdapter', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  it('encrypts only opted-in slices and reads plain values as is', async () => {
+    const backing = createMemoryAdapter();
+    backing.setItem('app:persisted_state_user', '{"legacy":true}');
+    const adapter = createEncryptedAdapter(backing, { key: 'secret', paths: ['user'] });
+
+    await adapter.setItem('app:persisted_state_user', '{"name":"Ada"}');
+    await adapter.setItem('app:persisted_state_theme', '"dark"');
+
+    expect(backing.getItem('app:persisted_state_user')).toMatch(/^scope-enc:1:/);
+    expect(backing.getItem('app:persisted_state_user')).not.toContain('Ada');
+    expect(backing.getItem('app:persisted_state_theme')).toBe('"dark"');
+
+    expect(await adapter.getItem('app:persisted_state_user')).toBe('{"name":"Ada"}');
+    expect(await adapter.getItem('app:persisted_state_theme')).toBe('"dark"');
+    expect(await adapter.getItem('missing')).toBeNull();
+  });
+
+  it('reads Web Crypto values with the Node crypto fallback', async () => {
+    const backing = createMemoryAdapter();
+    const key = new Uint8Array(32).fill(7);
+    await createEncryptedAdapter(backing, { key }).setItem('k', 'hello');
+
+    const webCrypto = Object.getOwnPropertyDescriptor(globalThis, 'crypto');
+    Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+    try {
+      expect(await createEncryptedAdapter(backing, { key }).getItem('k')).toBe('hello');
+    } finally {
+      Object.defineProperty(globalThis, 'crypto', webCrypto!);
+    }
+  });
+
+  it('treats values encrypted with another key as missing', async () => {
+    const backing = createMemoryAdapter();
+    await createEncryptedAdapter(backing, { key: 'right' }).setItem('k', 'hello');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await createEncryptedAdapter(backing, { key: 'wrong' }).getItem('k')).toBeNull();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('hydrates a store through createCachedAdapter', async () => {
+    const backing = createMemoryAdapter();
+    const config = { initialState: { session: { token: '' } }, persistence: { namespace: 'secure' } };
+
+    const first = createStore({
+      ...config,
+      persistence: { ...config.persistence, storageAdapter: createCachedAdapter(createEncryptedAdapter(backing, { key: 'secret' })) },
+    });
+    // Writes are persisted once the async hydration has finished
+    await new Promise(resolve => setTimeout(resolve, 10));
+    first.$.session.token = 'abc123';
+    first.persistence.flushBatch();
+    first.destroy();
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(backing.getItem('secure:persisted_state_session')).toMatch(/^scope-enc:1:/);
+
+    const second = createStore({
+      ...config,
+      persistence: { ...config.persistence, storageAdapter: createCachedAdapter(createEncryptedAdapter(backing, { key: 'secret' })) },
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(second.$.session.token).toBe('abc123');
+    second.destroy();
+  });
+});
@@ -0,0 +1,233 @@
+import type { StorageAdapter } from '../types';
+import { loadNodeBuiltin } from './nodeBuiltins';
+
+type NodeCrypto = typeof import('crypto');
+
+export interface EncryptedAdapterOptions {
+  /**
+   * The encryption key: 16 or 32 raw bytes (AES-128/AES-256), or a string
+   * secret that is hashed with SHA-256 into an AES-256 key. Use a
+   * high-entropy secret — a string key is not a password-based derivation.
+   */
+  key: string | Uint8Array;
+  /**
+   * Root paths to encrypt, e.g. `['user', 'session']`. Other slices are
+   * stored as plain JSON. The full-state blob (`persistenceAPI.persist()`)
+   * is always encrypted.
+   *  @default every value is encrypted
+   */
+  paths?: string[];
+}
+
+/** Encrypted values are stored as `${ENCRYPTED_PREFIX}${base64(iv + ciphertext + tag)}` */
+const ENCRYPTED_PREFIX = 'scope-enc:1:';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Matches the persistence layer's keys: `[namespace:]persisted_state[_rootPath]`
+// (and the same for quarantined slices)
+const SLICE_KEY_PATTERN = /(?:^|:)persisted_(?:state|quarantine)(?:_(.+))?$/;
+
+interface AesGcm {
+  encrypt(plaintext: string): Promise<Uint8Array>;
+  decrypt(data: Uint8Array): Promise<string>;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function validateKeyLength(key: Uint8Array): void {
+  if (key.length !== 16 && key.length !== 32) {
+    throw new Error(`[scope-state] Encryption keys must be 16 or 32 bytes, got ${key.length}`);
+  }
+}
+
+/**
+ * AES-GCM through Web Crypto (browsers, React Native polyfills, Node 19+)
+ */
+async function createWebCryptoAesGcm(subtle: SubtleCrypto, key: string | Uint8Array): Promise<AesGcm> {
+  const keyBytes = typeof key === 'string'
+    ? new Uint8Array(await subtle.digest('SHA-256', new TextEncoder().encode(key)))
+    : key;
+  validateKeyLength(keyBytes);
+
+  const cryptoKey = await subtle.importKey('raw', keyBytes, 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+  return {
+    async encrypt(plaintext) {
+      const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+      const ciphertext = await subtle.encrypt({ name: 'AES-GCM', iv }, cryptoKey, new TextEncoder().encode(plaintext));
+      return concatBytes(iv, new Uint8Array(ciphertext));
+    },
+
+    async decrypt(data) {
+      const plaintext = await subtle.decrypt(
+        { name: 'AES-GCM', iv: data.subarray(0, IV_LENGTH) },
+        cryptoKey,
+        data.subarray(IV_LENGTH)
+      );
+      return new TextDecoder().decode(plaintext);
+    },
+  };
+}
+
+/**
+ * AES-GCM through Node's `crypto` module, for runtimes without Web Crypto.
+ * Produces the same format as Web Crypto (ciphertext followed by the auth tag).
+ */
+function createNodeAesGcm(key: string | Uint8Array): AesGcm {
+  const nodeCrypto = loadNodeBuiltin<NodeCrypto>('crypto');
+  const keyBytes = typeof key === 'string' ? nodeCrypto.createHash('sha256').update(key).digest() : key;
+  validateKeyLength(keyBytes);
+  const algorithm = `aes-${keyBytes.length * 8}-gcm` as import('crypto').CipherGCMTypes;
+
+  return {
+    async encrypt(plaintext) {
+      const iv = nodeCrypto.randomBytes(IV_LENGTH);
+      const cipher = nodeCrypto.createCipheriv(algorithm, keyBytes, iv);
+      const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final(), cipher.getAuthTag()]);
+      return concatBytes(iv, ciphertext);
+    },
+
+    async decrypt(data) {
+      const decipher = nodeCrypto.createDecipheriv(algorithm, keyBytes, data.subarray(0, IV_LENGTH));
+      decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+      return Buffer.concat([
+        decipher.update(data.subarray(IV_LENGTH, data.length - TAG_LENGTH)),
+        decipher.final(),
+      ]).toString('utf8');
+    },
+  };
+}
+
+/**
+ * Wraps a StorageAdapter so persisted values are encrypted with AES-GCM.
+ *
+ * Uses Web Crypto when available and falls back to Node's `crypto` module.
+ * Encryption is asynchronous, so wrap the result in `createCachedAdapter()` —
+ * the cache is warmed with decrypted values during hydration and reads stay
+ * synchronous. Values written before encryption was enabled are still read
+ * as plain text and encrypted on their next write.
+ *
+ * @example
+ * import { configure, createCachedAdapter, createEncryptedAdapter, createLocalStorageAdapter } from 'scope-state';
+ *
+ * configure({
+ *   initialState: { ... },
+ *   persistence: {
+ *     storageAdapter: createCachedAdapter(
+ *       createEncryptedAdapter(createLocalStorageAdapter(), { key: secret, paths: ['user', 'session'] })
+ *     ),
+ *   },
+ * });
+ *
+ * @param backingAdapter - The adapter that stores the encrypted values
+ * @param options - The key and the root paths to encrypt
+ * @returns An asynchronous StorageAdapter that encrypts on write and decrypts on read
+ */
+export function createEncryptedAdapter(
+  backingAdapter: StorageAdapter,
+  options: EncryptedAdapterOptions
+): StorageAdapter & { entries(): Promise<Array<[string, string]>> } {
+  const { key, paths } = options;
+  let aesGcmPromise: Promise<AesGcm> | null = null;
+
+  // Set up the cipher on first use (importing a Web Crypto key is async)
+  function getAesGcm(): Promise<AesGcm> {
+    if (!aesGcmPromise) {
+      const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+      aesGcmPromise = subtle
+        ? createWebCryptoAesGcm(subtle, key)
+        : Promise.resolve().then(() => createNodeAesGcm(key));
+    }
+    return aesGcmPromise;
+  }
+
+  function shouldEncrypt(storageKey: string): boolean {
+    if (!paths) return true;
+
+    const match = SLICE_KEY_PATTERN.exec(storageKey);
+    if (!match) return false;
+
+    const rootPath = match[1];
+    if (!rootPath) return true;
+
+    return paths.some(path => rootPath === path || rootPath.startsWith(`${path}.`));
+  }
+
+  async function decryptValue(storageKey: string, value: string | null): Promise<string | null> {
+    if (value === null || !value.startsWith(ENCRYPTED_PREFIX)) return value;
+
+    try {
+      const aesGcm = await getAesGcm();
+      return await aesGcm.decrypt(fromBase64(value.slice(ENCRYPTED_PREFIX.length)));
+    } catch (e) {
+      // Wrong key or tampered data — treat the entry as missing
+      console.error(`[scope-state] Could not decrypt "${storageKey}":`, e);
+      return null;
+    }
+  }
+
+  return {
+    async getItem(storageKey: string): Promise<string | null> {
+      return decryptValue(storageKey, await backingAdapter.getItem(storageKey));
+    },
+
+    async setItem(storageKey: string, value: string): Promise<void> {
+      if (!shouldEncrypt(storageKey)) {
+        await backingAdapter.setItem(storageKey, value);
+        return;
+      }
+
+      const aesGcm = await getAesGcm();
+      const encrypted = ENCRYPTED_PREFIX + toBase64(await aesGcm.encrypt(value));
+      await backingAdapter.setItem(storageKey, encrypted);
+    },
+
+    async removeItem(storageKey: string): Promise<void> {
+      await backingAdapter.removeItem(storageKey);
+    },
+
+    async keys(): Promise<string[]> {
+      return backingAdapter.keys();
+    },
+
+    async clear(): Promise<void> {
+      if (backingAdapter.clear) {
+        await backingAdapter.clear();
+      }
+    },
+
+    async entries(): Promise<Array<[string, string]>> {
+      let entries: Array<[string, string | null]>;
+      if (backingAdapter.entries) {
+        entries = await backingAdapter.entries();
+      } else {
+        const keys = await backingAdapter.keys();
+        entries = await Promise.all(keys.map(async (k): Promise<[string, string | null]> => [k, await backingAdapter.getItem(k)]));
+      }
+
+      const decrypted = await Promise.all(
+        entries.map(async ([k, value]): Promise<[string, string | null]> => [k, await decryptValue(k, value)])
+      );
+      return decrypted.filter((entry): entry is [string, string] => entry[1] !== null);
+    },
+  };
+}
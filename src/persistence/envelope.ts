@@ -0,0 +1,45 @@
+import { serializeState, deserializeState } from './serialization';
+
+// Marker property identifying a persisted envelope
+const ENVELOPE_MARKER = '__scopeEnvelope';
+
+/**
+ * Metadata stored alongside each persisted slice.
+ */
+export interface EnvelopeMeta {
+  /** Schema version the data was written with (`persistence.version`) */
+  version: number;
+  /** When the slice was written (ms since epoch). Missing for slices written before TTL support. */
+  timestamp?: number;
+}
+
+/**
+ * A persisted slice: its data plus metadata.
+ */
+export interface PersistedEnvelope<T = any> extends EnvelopeMeta {
+  data: T;
+}
+
+/**
+ * Serialize a slice together with its metadata.
+ */
+export function wrapEnvelope(data: unknown, meta: EnvelopeMeta): string {
+  return serializeState({ [ENVELOPE_MARKER]: 1, ...meta, data });
+}
+
+/**
+ * Parse a stored slice. Values written before envelopes existed are returned
+ * as version 0.
+ *
+ * @throws If the value isn't valid JSON
+ */
+export function unwrapEnvelope(serialized: string): PersistedEnvelope {
+  const parsed = deserializeState(serialized);
+
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed) && parsed[ENVELOPE_MARKER] === 1) {
+    const { [ENVELOPE_MARKER]: _marker, data, ...meta } = parsed;
+    return { version: 0, ...meta, data };
+  }
+
+  return { version: 0, data: parsed };
+}
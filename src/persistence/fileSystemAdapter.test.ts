@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createFileSystemAdapter } from './fileSystemAdapter';
+import { createStore } from '../createStore';
+import { setStorageAdapter, resetStorageAdapter } from './storage';
+import { monitoringConfig } from '../config';
+
+describe('createFileSystemAdapter', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scope-state-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores one file per key and leaves no temporary files behind', () => {
+    const adapter = createFileSystemAdapter(path.join(dir, 'state'));
+
+    expect(adapter.getItem('app:user')).toBeNull();
+    expect(adapter.keys!()).toEqual([]);
+
+    adapter.setItem('app:user', '{"name":"Ada"}');
+    adapter.setItem('app:user', '{"name":"Grace"}');
+    adapter.setItem('app:cart', '[]');
+
+    expect(adapter.getItem('app:user')).toBe('{"name":"Grace"}');
+    expect((adapter.keys!() as string[]).sort()).toEqual(['app:cart', 'app:user']);
+    expect(fs.readdirSync(path.join(dir, 'state')).every(file => file.endsWith('.json'))).toBe(true);
+
+    adapter.removeItem('app:cart');
+    expect(adapter.getItem('app:cart')).toBeNull();
+
+    adapter.clear!();
+    expect(adapter.keys!()).toEqual([]);
+  });
+
+  it('stores all keys in one JSON file in single-file mode', () => {
+    const file = path.join(dir, 'nested', 'state.json');
+    const adapter = createFileSystemAdapter(file, { singleFile: true });
+
+    adapter.setItem('a', '1');
+    adapter.setItem('b', '2');
+    adapter.removeItem('a');
+
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual({ b: '2' });
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['state.json']);
+
+    // A fresh adapter (e.g. after a restart) reads the same file
+    expect(createFileSystemAdapter(file, { singleFile: true }).getItem('b')).toBe('2');
+  });
+
+  it('persists a store across restarts outside the browser', () => {
+    // A fresh initial state and adapter per store, as after a restart
+    const createConfig = () => ({
+      initialState: { todos: [] as string[] },
+      persistence: { namespace: 'cli', storageAdapter: createFileSystemAdapter(dir) },
+    });
+
+    const first = createStore(createConfig());
+    first.$.todos.push('ship it');
+    first.persistence.flushBatch();
+    first.destroy();
+
+    const second = createStore(createConfig());
+    expect(second.$.todos).toEqual(['ship it']);
+    second.destroy();
+  });
+
+  it('persists with a global adapter set with setStorageAdapter()', () => {
+    const createConfig = () => ({ initialState: { todos: [] as string[] }, persistence: { namespace: 'cli' } });
+
+    try {
+      setStorageAdapter(createFileSystemAdapter(dir));
+      const first = createStore(createConfig());
+      first.$.todos.push('ship it');
+      first.persistence.flushBatch();
+      first.destroy();
+
+      setStorageAdapter(createFileSystemAdapter(dir));
+      const second = createStore(createConfig());
+      expect(second.$.todos).toEqual(['ship it']);
+      second.destroy();
+    } finally {
+      resetStorageAdapter();
+    }
+  });
+});
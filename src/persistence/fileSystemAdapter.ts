@@ -0,0 +1,174 @@
+import type { StorageAdapter } from '../types';
+import { loadNodeBuiltin } from './nodeBuiltins';
+
+type FileSystem = typeof import('fs');
+type PathModule = typeof import('path');
+
+export interface FileSystemAdapterOptions {
+  /**
+   * Store every key in one JSON file (`location` is then the file path)
+   * instead of one file per key in the `location` directory.
+   *  @default false
+   */
+  singleFile?: boolean;
+  /** The `fs` module to use. Defaults to Node's built-in module. */
+  fs?: FileSystem;
+}
+
+function isMissingFileError(e: unknown): boolean {
+  return !!e && typeof e === 'object' && (e as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+let tempFileCounter = 0;
+
+/**
+ * Write a file atomically: write a temporary file next to it, then rename it
+ * over the target, so a crash mid-write never leaves a truncated file.
+ */
+function writeFileAtomic(fs: FileSystem, file: string, contents: string): void {
+  const tempFile = `${file}.${process.pid}.${tempFileCounter++}.tmp`;
+  try {
+    fs.writeFileSync(tempFile, contents, 'utf8');
+    fs.renameSync(tempFile, file);
+  } catch (e) {
+    try {
+      fs.unlinkSync(tempFile);
+    } catch { /* the temporary file was never created */ }
+    throw e;
+  }
+}
+
+/**
+ * Creates a file-system storage adapter for Node, Electron and CLI tools.
+ *
+ * By default every key is stored as its own `.json` file in `location` (created
+ * if missing). With `singleFile: true`, all keys are stored in one JSON file.
+ * Writes are atomic (write-temp-then-rename). All methods are synchronous, so
+ * persisted state is merged before the store is created — no async hydration.
+ *
+ * @example
+ * import { configure, createFileSystemAdapter } from 'scope-state';
+ *
+ * configure({
+ *   initialState: { ... },
+ *   persistence: {
+ *     storageAdapter: createFileSystemAdapter(path.join(app.getPath('userData'), 'state')),
+ *   },
+ * });
+ *
+ * @param location - Directory of the key files (or the file path in single-file mode)
+ * @returns A StorageAdapter backed by the file system
+ */
+export function createFileSystemAdapter(
+  location: string,
+  options: FileSystemAdapterOptions = {}
+): StorageAdapter {
+  const fs = options.fs || loadNodeBuiltin<FileSystem>('fs');
+  const path = loadNodeBuiltin<PathModule>('path');
+
+  if (options.singleFile) {
+    return createSingleFileAdapter(fs, path, location);
+  }
+
+  // Keys may contain ':' or '/', so they are encoded into safe file names
+  const fileFor = (key: string) => path.join(location, `${encodeURIComponent(key)}.json`);
+  const ensureDirectory = () => fs.mkdirSync(location, { recursive: true });
+
+  const removeItem = (key: string): void => {
+    try {
+      fs.unlinkSync(fileFor(key));
+    } catch (e) {
+      if (!isMissingFileError(e)) throw e;
+    }
+  };
+
+  const keys = (): string[] => {
+    try {
+      return fs.readdirSync(location)
+        .filter(file => file.endsWith('.json'))
+        .map(file => decodeURIComponent(file.slice(0, -'.json'.length)));
+    } catch (e) {
+      if (isMissingFileError(e)) return [];
+      throw e;
+    }
+  };
+
+  return {
+    getItem(key: string): string | null {
+      try {
+        return fs.readFileSync(fileFor(key), 'utf8');
+      } catch (e) {
+        if (isMissingFileError(e)) return null;
+        throw e;
+      }
+    },
+
+    setItem(key: string, value: string): void {
+      ensureDirectory();
+      writeFileAtomic(fs, fileFor(key), value);
+    },
+
+    removeItem,
+
+    keys,
+
+    clear(): void {
+      keys().forEach(key => removeItem(key));
+    },
+  };
+}
+
+/**
+ * Single-file mode: all keys live in one JSON object, loaded once and
+ * rewritten atomically on every change.
+ */
+function createSingleFileAdapter(fs: FileSystem, path: PathModule, file: string): StorageAdapter {
+  let data: Record<string, string> | null = null;
+
+  const load = (): Record<string, string> => {
+    if (!data) {
+      try {
+        data = JSON.parse(fs.readFileSync(file, 'utf8'));
+      } catch (e) {
+        if (!isMissingFileError(e)) {
+          console.error(`[scope-state] Could not read "${file}", starting empty:`, e);
+        }
+        data = {};
+      }
+    }
+    return data!;
+  };
+
+  const save = () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    writeFileAtomic(fs, file, JSON.stringify(load()));
+  };
+
+  return {
+    getItem(key: string): string | null {
+      const entries = load();
+      return Object.prototype.hasOwnProperty.call(entries, key) ? entries[key] : null;
+    },
+
+    setItem(key: string, value: string): void {
+      load()[key] = value;
+      save();
+    },
+
+    removeItem(key: string): void {
+      const entries = load();
+      if (!Object.prototype.hasOwnProperty.call(entries, key)) return;
+      delete entries[key];
+      save();
+    },
+
+    keys(): string[] {
+      return Object.keys(load());
+    },
+
+    clear(): void {
+      data = {};
+      save();
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import { createIndexedDBAdapter } from './indexedDBAdapter';
+import { createCachedAdapter } from './adapters';
+
+/**
+ * Minimal in-memory IndexedDB: requests succeed asynchronously and each
+ * transaction completes after its requests.
+ */
+function createMemoryIndexedDB() {
+  const databases = new Map<string, Map<string, Map<string, unknown>>>();
+  const stats = { transactions: 0 };
+
+  const request = <T>(run: () => T) => {
+    const req: any = {};
+    queueMicrotask(() => {
+      req.result = run();
+      req.onsuccess?.();
+    });
+    return req;
+  };
+
+  const factory = {
+    open(name: string) {
+      const req: any = {};
+      setTimeout(() => {
+        const isNew = !databases.has(name);
+        const stores = databases.get(name) || new Map<string, Map<string, unknown>>();
+        databases.set(name, stores);
+
+        req.result = {
+          objectStoreNames: { contains: (storeName: string) => stores.has(storeName) },
+          createObjectStore: (storeName: string) => stores.set(storeName, new Map()),
+          close: () => {},
+          transaction(storeName: string) {
+            stats.transactions++;
+            const data = stores.get(storeName)!;
+            const sortedKeys = () => Array.from(data.keys()).sort();
+            const transaction: any = {
+              objectStore: () => ({
+                get: (key: string) => request(() => data.get(key)),
+                put: (value: unknown, key: string) => request(() => data.set(key, value)),
+                delete: (key: string) => request(() => data.delete(key)),
+                clear: () => request(() => data.clear()),
+                getAllKeys: () => request(sortedKeys),
+                getAll: () => request(() => sortedKeys().map(key => data.get(key))),
+              }),
+            };
+            setTimeout(() => transaction.oncomplete?.());
+            return transaction;
+          },
+        };
+
+        if (isNew) req.onupgradeneeded?.();
+        req.onsuccess?.();
+      });
+      return req;
+    },
+  };
+
+  return { indexedDB: factory as unknown as IDBFactory, stats };
+}
+
+describe('createIndexedDBAdapter', () => {
+  it('stores, lists and removes items', async () => {
+    const { indexedDB } = createMemoryIndexedDB();
+    const adapter = createIndexedDBAdapter({ dbName: 'test', indexedDB });
+
+    await adapter.setItem('b', '2');
+    await adapter.setItem('a', '1');
+
+    expect(await adapter.getItem('a')).toBe('1');
+    expect(await adapter.getItem('missing')).toBeNull();
+    expect(await adapter.keys()).toEqual(['a', 'b']);
+
+    await adapter.removeItem('a');
+    expect(await adapter.keys()).toEqual(['b']);
+
+    await adapter.clear();
+    expect(await adapter.keys()).toEqual([]);
+  });
+
+  it('warms a cached adapter in a single transaction', async () => {
+    const { indexedDB, stats } = createMemoryIndexedDB();
+    const backing = createIndexedDBAdapter({ indexedDB });
+    await Promise.all([backing.setItem('x', 'one'), backing.setItem('y', 'two'), backing.setItem('z', 'three')]);
+
+    const cached = createCachedAdapter(backing);
+    const before = stats.transactions;
+    await cached.warmCache();
+
+    expect(stats.transactions - before).toBe(1);
+    expect(cached.getItem('y')).toBe('two');
+    expect(cached.keys()).toEqual(['x', 'y', 'z']);
+  });
+});
@@ -0,0 +1,139 @@
+import type { StorageAdapter } from '../types';
+
+export interface IndexedDBAdapterOptions {
+  /** Database name. @default 'scope-state' */
+  dbName?: string;
+  /** Object store name. @default 'persisted' */
+  storeName?: string;
+  /**
+   * The IndexedDB factory to use. Defaults to the global `indexedDB`;
+   * pass an in-memory implementation (e.g. fake-indexeddb) to run in Node.
+   */
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * Creates an IndexedDB-based storage adapter.
+ *
+ * IndexedDB has no practical size limit and doesn't block the main thread,
+ * which makes it a better fit than localStorage for large state. All methods
+ * are asynchronous, so wrap it in `createCachedAdapter()` — the cache is then
+ * warmed with all stored entries in a single transaction.
+ *
+ * @example
+ * import { configure, createCachedAdapter, createIndexedDBAdapter } from 'scope-state';
+ *
+ * configure({
+ *   initialState: { ... },
+ *   persistence: {
+ *     storageAdapter: createCachedAdapter(createIndexedDBAdapter({ dbName: 'my-app' })),
+ *   },
+ * });
+ *
+ * @returns A StorageAdapter backed by an IndexedDB object store
+ */
+export function createIndexedDBAdapter(
+  options: IndexedDBAdapterOptions = {}
+): StorageAdapter & { entries(): Promise<Array<[string, string]>>; close(): void } {
+  const { dbName = 'scope-state', storeName = 'persisted' } = options;
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  // Open the database lazily, creating the object store on first use
+  function getDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const factory = options.indexedDB || (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+        if (!factory) {
+          reject(new Error('[scope-state] IndexedDB is not available in this environment'));
+          return;
+        }
+
+        const request = factory.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow retrying after a failed open
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  }
+
+  // Run requests in one transaction and resolve once it has completed
+  async function withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => () => T
+  ): Promise<T> {
+    const db = await getDatabase();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const getResult = run(transaction.objectStore(storeName));
+
+      transaction.oncomplete = () => resolve(getResult());
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  return {
+    getItem(key: string): Promise<string | null> {
+      return withStore('readonly', store => {
+        const request = store.get(key);
+        return () => (request.result === undefined ? null : request.result);
+      });
+    },
+
+    setItem(key: string, value: string): Promise<void> {
+      return withStore('readwrite', store => {
+        store.put(value, key);
+        return () => undefined;
+      });
+    },
+
+    removeItem(key: string): Promise<void> {
+      return withStore('readwrite', store => {
+        store.delete(key);
+        return () => undefined;
+      });
+    },
+
+    keys(): Promise<string[]> {
+      return withStore('readonly', store => {
+        const request = store.getAllKeys();
+        return () => request.result.map(String);
+      });
+    },
+
+    clear(): Promise<void> {
+      return withStore('readwrite', store => {
+        store.clear();
+        return () => undefined;
+      });
+    },
+
+    entries(): Promise<Array<[string, string]>> {
+      // Keys and values are read in the same transaction, so they line up
+      return withStore('readonly', store => {
+        const keysRequest = store.getAllKeys();
+        const valuesRequest = store.getAll();
+        return () => keysRequest.result.map((key, i): [string, string] => [String(key), valuesRequest.result[i]]);
+      });
+    },
+
+    /** Close the database connection. It is reopened on next use. */
+    close(): void {
+      if (dbPromise) {
+        dbPromise.then(db => db.close()).catch(() => {});
+        dbPromise = null;
+      }
+    },
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * LZ-based string compression producing valid UTF-16 (15 bits per character,
+ * offset by 32), so the output is safe to store in localStorage. This follows
+ * the `compressToUTF16` / `decompressFromUTF16` format of lz-string.
+ */
+
+const BITS_PER_CHAR = 15;
+
+/**
+ * Compress a string into a UTF-16-safe string
+ */
+export function compressToUTF16(input: string): string {
+  const output: string[] = [];
+  let bitBuffer = 0;
+  let bitPosition = 0;
+
+  // Append the lowest `count` bits of `value`, least significant bit first
+  const writeBits = (count: number, value: number) => {
+    for (let i = 0; i < count; i++) {
+      bitBuffer = (bitBuffer << 1) | (value & 1);
+      if (bitPosition === BITS_PER_CHAR - 1) {
+        bitPosition = 0;
+        output.push(String.fromCharCode(bitBuffer + 32));
+        bitBuffer = 0;
+      } else {
+        bitPosition++;
+      }
+      value >>= 1;
+    }
+  };
+
+  const dictionary = new Map<string, number>();
+  const pendingLiterals = new Set<string>();
+  let dictSize = 3;
+  let numBits = 2;
+  let enlargeIn = 2;
+  let w = '';
+
+  const growCodeWidth = () => {
+    enlargeIn--;
+    if (enlargeIn === 0) {
+      enlargeIn = Math.pow(2, numBits);
+      numBits++;
+    }
+  };
+
+  // Emit `w`: the first occurrence of a character is written as a literal
+  // (code 0 + 8 bits, or code 1 + 16 bits), afterwards as its dictionary code
+  const writePhrase = () => {
+    if (pendingLiterals.has(w)) {
+      const charCode = w.charCodeAt(0);
+      if (charCode < 256) {
+        writeBits(numBits, 0);
+        writeBits(8, charCode);
+      } else {
+        writeBits(numBits, 1);
+        writeBits(16, charCode);
+      }
+      growCodeWidth();
+      pendingLiterals.delete(w);
+    } else {
+      writeBits(numBits, dictionary.get(w)!);
+    }
+    growCodeWidth();
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input.charAt(i);
+    if (!dictionary.has(c)) {
+      dictionary.set(c, dictSize++);
+      pendingLiterals.add(c);
+    }
+
+    const wc = w + c;
+    if (dictionary.has(wc)) {
+      w = wc;
+    } else {
+      writePhrase();
+      dictionary.set(wc, dictSize++);
+      w = c;
+    }
+  }
+
+  if (w !== '') {
+    writePhrase();
+  }
+
+  // End of stream marker
+  writeBits(numBits, 2);
+
+  // Flush the last partial character
+  for (;;) {
+    bitBuffer <<= 1;
+    if (bitPosition === BITS_PER_CHAR - 1) {
+      output.push(String.fromCharCode(bitBuffer + 32));
+      break;
+    }
+    bitPosition++;
+  }
+
+  return output.join('') + ' ';
+}
+
+/**
+ * Decompress a string produced by `compressToUTF16`
+ *
+ * @returns The original string, or `null` if the input is corrupt
+ */
+export function decompressFromUTF16(compressed: string): string | null {
+  const length = compressed.length;
+  const resetValue = 1 << (BITS_PER_CHAR - 1);
+  let currentValue = compressed.charCodeAt(0) - 32;
+  let position = resetValue;
+  let index = 1;
+
+  // Read `count` bits, least significant bit first
+  const readBits = (count: number): number => {
+    let bits = 0;
+    for (let power = 1; power !== 1 << count; power <<= 1) {
+      const bit = currentValue & position;
+      position >>= 1;
+      if (position === 0) {
+        position = resetValue;
+        currentValue = compressed.charCodeAt(index++) - 32;
+      }
+      if (bit > 0) bits |= power;
+    }
+    return bits;
+  };
+
+  const dictionary: string[] = ['', '', ''];
+  let enlargeIn = 4;
+  let numBits = 3;
+
+  let first: string;
+  switch (readBits(2)) {
+    case 0:
+      first = String.fromCharCode(readBits(8));
+      break;
+    case 1:
+      first = String.fromCharCode(readBits(16));
+      break;
+    case 2:
+      return '';
+    default:
+      return null;
+  }
+
+  dictionary[3] = first;
+  let w = first;
+  const result = [first];
+
+  for (;;) {
+    if (index > length) return null;
+
+    let code = readBits(numBits);
+    if (code === 0 || code === 1) {
+      dictionary.push(String.fromCharCode(readBits(code === 0 ? 8 : 16)));
+      code = dictionary.length - 1;
+      enlargeIn--;
+    } else if (code === 2) {
+      return result.join('');
+    }
+
+    if (enlargeIn === 0) {
+      enlargeIn = Math.pow(2, numBits);
+      numBits++;
+    }
+
+    let entry: string;
+    if (code < dictionary.length && dictionary[code]) {
+      entry = dictionary[code];
+    } else if (code === dictionary.length) {
+      entry = w + w.charAt(0);
+    } else {
+      return null;
+    }
+
+    result.push(entry);
+    dictionary.push(w + entry.charAt(0));
+    enlargeIn--;
+    w = entry;
+
+    if (enlargeIn === 0) {
+      enlargeIn = Math.pow(2, numBits);
+      numBits++;
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import type { PersistenceConfig } from '../types';
+
+/**
+ * Wrap a slice value in the shape of the full state, e.g. `{ user: value }`
+ * for the "user" slice, so migrations can be written against the state shape.
+ * The full-state blob (root path '') is passed as is.
+ */
+function toStateShape(rootPath: string, value: unknown): any {
+  if (!rootPath) return value;
+
+  return rootPath
+    .split('.')
+    .reduceRight<unknown>((inner, segment) => ({ [segment]: inner }), value);
+}
+
+/**
+ * Read a slice value back out of the state shape (`undefined` if a migration removed it)
+ */
+function fromStateShape(rootPath: string, state: any): unknown {
+  if (!rootPath) return state;
+
+  let current = state;
+  for (const segment of rootPath.split('.')) {
+    if (current === null || current === undefined || typeof current !== 'object') return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * Whether data stored at `fromVersion` needs migrating to the configured version
+ */
+export function needsMigration(fromVersion: number, config: PersistenceConfig): boolean {
+  return fromVersion < (config.version ?? 0);
+}
+
+/**
+ * Run the configured migrations for a slice stored at `fromVersion`, in ascending
+ * version order. Versions without a migration are skipped.
+ *
+ * Each migration receives the slice in the shape of the full state
+ * (`{ user: {...} }` for the "user" slice) and returns the migrated state.
+ *
+ * @returns The migrated slice value (`undefined` if a migration dropped it)
+ * @throws Whatever a migration throws
+ */
+export function migrateSlice(
+  rootPath: string,
+  value: unknown,
+  fromVersion: number,
+  config: PersistenceConfig
+): unknown {
+  const toVersion = config.version ?? 0;
+  const migrations = config.migrate || {};
+
+  const steps = Object.keys(migrations)
+    .map(Number)
+    .filter(version => version > fromVersion && version <= toVersion)
+    .sort((a, b) => a - b);
+
+  let state = toStateShape(rootPath, value);
+  for (const version of steps) {
+    state = migrations[version](state);
+  }
+
+  return fromStateShape(rootPath, state);
+}
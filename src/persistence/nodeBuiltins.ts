@@ -0,0 +1,26 @@
+/**
+ * Load a Node built-in module at call time, so browser bundles never include it.
+ *
+ * Uses `process.getBuiltinModule()` (Node 20.16+ and 22.3+), falling back to
+ * `require` in CommonJS. The ES module build has no `require`, so it needs one
+ * of those Node versions.
+ *
+ * @throws If not running in Node (or Electron's main process), or if the ES
+ * module build runs on an older Node
+ */
+export function loadNodeBuiltin<T>(name: string): T {
+  const nodeProcess = (globalThis as any).process;
+  if (nodeProcess && typeof nodeProcess.getBuiltinModule === 'function') {
+    return nodeProcess.getBuiltinModule(name);
+  }
+  if (typeof require === 'function') {
+    return require(name);
+  }
+  if (nodeProcess && nodeProcess.versions && nodeProcess.versions.node) {
+    throw new Error(
+      `[scope-state] Can't load the Node.js "${name}" module from the ES module build on Node ${nodeProcess.versions.node}: ` +
+      'it needs process.getBuiltinModule() (Node 20.16+ or 22.3+). Use the CommonJS build or upgrade Node.'
+    );
+  }
+  throw new Error(`[scope-state] The Node.js "${name}" module is not available in this environment`);
+}
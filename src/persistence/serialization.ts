@@ -0,0 +1,53 @@
+// Marker property used to tag collections in persisted JSON
+const TYPE_MARKER = '__scopeType';
+
+/**
+ * JSON.stringify replacer that encodes Maps and Sets as tagged objects.
+ * WeakMaps and WeakSets can't be enumerated, so they are dropped.
+ */
+function replacer(_key: string, value: unknown): unknown {
+  if (value instanceof Map) {
+    return { [TYPE_MARKER]: 'Map', entries: Array.from(value.entries()) };
+  }
+
+  if (value instanceof Set) {
+    return { [TYPE_MARKER]: 'Set', values: Array.from(value) };
+  }
+
+  if (value instanceof WeakMap || value instanceof WeakSet) {
+    return undefined;
+  }
+
+  return value;
+}
+
+/**
+ * JSON.parse reviver that restores tagged Maps and Sets.
+ */
+function reviver(_key: string, value: any): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    if (value[TYPE_MARKER] === 'Map' && Array.isArray(value.entries)) {
+      return new Map(value.entries);
+    }
+
+    if (value[TYPE_MARKER] === 'Set' && Array.isArray(value.values)) {
+      return new Set(value.values);
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Serialize a state value for storage. Maps and Sets survive the round trip.
+ */
+export function serializeState(value: unknown): string {
+  return JSON.stringify(value, replacer);
+}
+
+/**
+ * Parse a value written by `serializeState()` (plain JSON is also accepted).
+ */
+export function deserializeState(serialized: string): any {
+  return JSON.parse(serialized, reviver);
+}
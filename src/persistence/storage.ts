@@ -1,5 +1,5 @@
 import type { StorageAdapter } from '../types';
-import { getDefaultAdapter, createCachedAdapter } from './adapters';
+import { getDefaultAdapter } from './adapters';
 
 /**
  * The active storage adapter used by the persistence layer.
@@ -12,6 +12,9 @@ import { getDefaultAdapter, createCachedAdapter } from './adapters';
  */
 let storageAdapter: (StorageAdapter & { warmCache?(): Promise<void> }) | null = null;
 
+// Whether `storageAdapter` was set explicitly rather than lazily defaulted
+let isCustomAdapter = false;
+
 /**
  * Get the current storage adapter, lazily initializing the default if needed.
  */
@@ -40,6 +43,15 @@ export function getStorageAdapter(): StorageAdapter & { warmCache?(): Promise<vo
  */
 export function setStorageAdapter(adapter: StorageAdapter): void {
   storageAdapter = adapter as StorageAdapter & { warmCache?(): Promise<void> };
+  isCustomAdapter = true;
+}
+
+/**
+ * Whether a storage adapter was set with `setStorageAdapter()` (or `configure()`),
+ * rather than the environment default.
+ */
+export function hasCustomStorageAdapter(): boolean {
+  return isCustomAdapter;
 }
 
 /**
@@ -47,4 +59,5 @@ export function setStorageAdapter(adapter: StorageAdapter): void {
  */
 export function resetStorageAdapter(): void {
   storageAdapter = null;
+  isCustomAdapter = false;
 }
@@ -0,0 +1,39 @@
+import type { SafeParseSchema, SliceValidator } from '../types';
+
+/**
+ * Use a zod-style schema (anything with `safeParse()`) as a slice validator.
+ * The parsed data replaces the stored value, so schema defaults and
+ * transforms apply.
+ *
+ * @example
+ * persistence: { validate: { settings: fromSafeParse(SettingsSchema) } }
+ */
+export function fromSafeParse<T>(schema: SafeParseSchema<T>): SliceValidator<T> {
+  return value => schema.safeParse(value);
+}
+
+/**
+ * Run a validator against a slice value. A validator that throws fails validation.
+ *
+ * @returns The value to use (the validator's `data` if it returned one), or the failure's error
+ */
+export function runValidator(
+  validator: SliceValidator,
+  value: unknown
+): { valid: true; value: unknown } | { valid: false; error: unknown } {
+  try {
+    const result = validator(value);
+
+    if (typeof result === 'boolean') {
+      return result ? { valid: true, value } : { valid: false, error: new Error('Validator returned false') };
+    }
+
+    if (result.success) {
+      return { valid: true, value: 'data' in result && result.data !== undefined ? result.data : value };
+    }
+
+    return { valid: false, error: result.error };
+  } catch (e) {
+    return { valid: false, error: e };
+  }
+}
@@ -0,0 +1,69 @@
+import { dehydrate, hydrateFromServer } from './ssr';
+import { createStore } from './createStore';
+import { createMemoryAdapter } from './persistence/adapters';
+import { batch } from './core/listeners';
+import { monitoringConfig } from './config';
+
+describe('server-side rendering', () => {
+  beforeAll(() => {
+    monitoringConfig.enabled = false;
+  });
+
+  it('notifies subscribers without a window', () => {
+    expect(typeof window).toBe('undefined');
+
+    const store = createStore({ initialState: { count: 0 }, persistence: { enabled: false } });
+    const listener = jest.fn();
+    store.subscribe('count', listener);
+
+    store.$.count = 1;
+    expect(listener).toHaveBeenCalledTimes(1);
+    store.destroy();
+  });
+
+  it('transfers state from server to client without persisting it', () => {
+    const server = createStore({
+      initialState: { title: '</script>', tags: new Set(['a']) },
+      persistence: { enabled: false },
+    });
+    const snapshot = dehydrate(server.$);
+    expect(snapshot).not.toContain('</script>');
+
+    const adapter = createMemoryAdapter();
+    const client = createStore({
+      initialState: { title: '', tags: new Set<string>() },
+      persistence: { namespace: 'client', storageAdapter: adapter, autoHydrate: false },
+    });
+    const listener = jest.fn();
+    client.subscribe('title', listener);
+
+    hydrateFromServer(snapshot, client.$);
+
+    expect(client.$.title).toBe('</script>');
+    expect(client.$.tags.has('a')).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(client.persistence.getBatchStatus().batchSize).toBe(0);
+
+    client.$.title = 'edited';
+    expect(client.persistence.getBatchStatus().pendingRoots).toEqual(['title']);
+
+    server.destroy();
+    client.destroy();
+  });
+
+  it('does not persist server state applied inside a batch', () => {
+    const client = createStore({
+      initialState: { title: '', count: 0 },
+      persistence: { namespace: 'client', storageAdapter: createMemoryAdapter(), autoHydrate: false },
+    });
+
+    batch(() => {
+      hydrateFromServer({ title: 'Server' }, client.$);
+      client.$.count = 1;
+    });
+
+    expect(client.$.title).toBe('Server');
+    expect(client.persistence.getBatchStatus().pendingRoots).toEqual(['count']);
+    client.destroy();
+  });
+});
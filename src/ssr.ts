@@ -0,0 +1,63 @@
+import { batch } from './core/listeners';
+import { proxyTargetMap } from './core/proxy';
+import { serializeState, deserializeState } from './persistence/serialization';
+import { defaultPersistenceContext, getPersistenceContext, writeWithoutPersisting } from './persistence/advanced';
+import { monitoringConfig } from './config';
+
+/**
+ * Serialize a store's state on the server, to be sent with the rendered page
+ * and passed to `hydrateFromServer()` on the client.
+ *
+ * Maps and Sets survive the round trip. `<` is escaped so the result can be
+ * inlined in a `<script>` tag.
+ *
+ * @example
+ * // Server
+ * const html = renderToString(<App />);
+ * const state = dehydrate();
+ * res.send(`${html}<script>window.__SCOPE_STATE__ = ${JSON.stringify(state)}</script>`);
+ *
+ * @param store - The store proxy to serialize (defaults to the configured `$`)
+ * @returns A JSON string
+ */
+export function dehydrate(store: object = defaultPersistenceContext.proxyRef): string {
+  const raw = proxyTargetMap.get(store) || store;
+  return serializeState(raw).replace(/</g, '\\u003c');
+}
+
+/**
+ * Seed a store with state produced by `dehydrate()` on the server.
+ *
+ * Call it before the first render so the client renders the same markup as the
+ * server. Every top-level key of the snapshot replaces the store's value;
+ * the writes aren't persisted to storage.
+ *
+ * @example
+ * // Client, before hydrateRoot()
+ * hydrateFromServer(window.__SCOPE_STATE__);
+ *
+ * @param snapshot - The string returned by `dehydrate()` (or its parsed object)
+ * @param store - The store proxy to seed (defaults to the configured `$`)
+ */
+export function hydrateFromServer(
+  snapshot: string | Record<string, any>,
+  store: Record<string, any> = defaultPersistenceContext.proxyRef
+): void {
+  const state = typeof snapshot === 'string' ? deserializeState(snapshot) : snapshot;
+  if (!state || typeof state !== 'object') return;
+
+  // Writing through the proxy notifies listeners, without writing server
+  // state to storage
+  const keys = Object.keys(state);
+  writeWithoutPersisting(getPersistenceContext(store), keys.map(key => [key]), () => {
+    batch(() => {
+      keys.forEach(key => {
+        store[key] = state[key];
+      });
+    });
+  });
+
+  if (typeof window !== 'undefined' && monitoringConfig.enabled) {
+    console.log('🔄 State hydrated from server snapshot');
+  }
+}
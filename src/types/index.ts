@@ -1,3 +1,5 @@
+import type { PersistenceAPI } from '../persistence/advanced';
+
 export interface CustomMethods<T> {
   /**
    * Merges new properties into the current object without removing existing properties.
@@ -27,6 +29,12 @@ export interface CustomMethods<T> {
    */
   $reset: () => T;
 
+  /**
+   * Runs the recipe and returns the RFC 6902 JSON Patch operations for the
+   * changes it made to this object. Pointers are relative to this object.
+   */
+  $patches: (recipe: (draft: T) => void) => JsonPatchOperation[];
+
   /**
    * Returns a pure JavaScript object without proxies or custom methods.
    */
@@ -55,6 +63,12 @@ export interface CustomArrayMethods<T> {
    */
   $reset: () => T[];
 
+  /**
+   * Runs the recipe and returns the RFC 6902 JSON Patch operations for the
+   * changes it made to this array. Pointers are relative to this array.
+   */
+  $patches: (recipe: (draft: T[]) => void) => JsonPatchOperation[];
+
   /**
    * Returns a pure JavaScript array without proxies or custom methods.
    */
@@ -65,9 +79,26 @@ export interface CustomArrayMethods<T> {
 export type EnhancedObject<T> = T & CustomMethods<T>;
 export type EnhancedArray<T> = Array<T> & CustomArrayMethods<T>;
 
+/**
+ * Methods available on reactive Maps and Sets.
+ */
+export interface CustomCollectionMethods<T> {
+  /**
+   * Returns a plain copy of the collection without proxies.
+   */
+  raw: () => T;
+}
+
+export type EnhancedMap<K, V> = Map<K, V> & CustomCollectionMethods<Map<K, V>>;
+export type EnhancedSet<T> = Set<T> & CustomCollectionMethods<Set<T>>;
+
 // Add DeepUnproxied type for proper typing
 export type DeepUnproxied<T> = T extends Array<infer U>
   ? DeepUnproxied<U>[]
+  : T extends Map<infer K, infer V>
+  ? Map<K, DeepUnproxied<V>>
+  : T extends Set<any> | WeakMap<any, any> | WeakSet<any>
+  ? T
   : T extends object
   ? { [K in keyof T]: T[K] extends Function ? never : DeepUnproxied<T[K]> }
   : T;
@@ -80,6 +111,12 @@ export type DeepUnproxied<T> = T extends Array<infer U>
  */
 export type ScopeSnapshot<T> = T extends Array<infer U>
   ? ReadonlyArray<ScopeSnapshot<U>>
+  : T extends Map<infer K, infer V>
+  ? ReadonlyMap<K, ScopeSnapshot<V>>
+  : T extends Set<infer U>
+  ? ReadonlySet<ScopeSnapshot<U>>
+  : T extends WeakMap<any, any> | WeakSet<any>
+  ? T
   : T extends object
   ? {
     readonly [K in keyof T as T[K] extends Function ? never : K]: ScopeSnapshot<T[K]>;
@@ -87,16 +124,39 @@ export type ScopeSnapshot<T> = T extends Array<infer U>
   : T;
 
 /**
- * The main type for the global store that adds custom methods to all nested objects and arrays.
+ * Methods available only on the root of a store (e.g. `$.batch`).
+ */
+export interface StoreMethods {
+  /**
+   * Runs the callback as a single batch of mutations.
+   * Notifications are deferred until the outermost batch ends and every
+   * subscriber fires at most once.
+   */
+  batch: <R>(fn: () => R) => R;
+}
+
+/**
+ * Recursive store shape that adds custom methods to all nested objects and arrays.
  */
-export type StoreType<T> = {
+export type StoreTree<T> = {
   [K in keyof T]: T[K] extends Array<infer U>
   ? EnhancedArray<U>
+  : T[K] extends Map<infer MK, infer MV>
+  ? EnhancedMap<MK, MV>
+  : T[K] extends Set<infer U>
+  ? EnhancedSet<U>
+  : T[K] extends WeakMap<any, any> | WeakSet<any>
+  ? T[K]
   : T[K] extends object
-  ? StoreType<T[K]> & CustomMethods<T[K]>
+  ? StoreTree<T[K]> & CustomMethods<T[K]>
   : T[K]
 } & CustomMethods<T>;
 
+/**
+ * The main type for the global store that adds custom methods to all nested objects and arrays.
+ */
+export type StoreType<T> = StoreTree<T> & StoreMethods;
+
 // Configuration types
 export interface ProxyConfig {
   /** Whether state tracking is enabled.
@@ -277,6 +337,12 @@ export interface StorageAdapter {
    * If not provided, `persistenceAPI.reset()` will iterate and remove keys individually.
    */
   clear?(): MaybePromise<void>;
+  /**
+   * Optional. Return every stored key/value pair at once.
+   * `createCachedAdapter()` uses it to warm its cache in a single read
+   * instead of one `getItem()` per key.
+   */
+  entries?(): MaybePromise<Array<[string, string]>>;
 }
 
 export interface PersistenceConfig {
@@ -336,6 +402,156 @@ export interface PersistenceConfig {
    * }
    */
   storageAdapter?: StorageAdapter;
+  /**
+   * Prefix for this store's storage keys, so several stores created with
+   * `createStore()` can share one storage backend. Ignored by `configure()`,
+   * whose keys are never prefixed.
+   *
+   * @default 'scope1', 'scope2'... in creation order
+   */
+  namespace?: string;
+  /**
+   * Schema version of the persisted state. Every slice is stored with the
+   * version it was written with; bump it and add a `migrate` step when the
+   * shape of persisted state changes. Slices written before versioning are version 0.
+   *  @default 0
+   */
+  version?: number;
+  /**
+   * Migrations keyed by the version they upgrade to. When a slice is loaded,
+   * every migration above its stored version (up to `version`) runs in order.
+   * Each receives the slice in the shape of the full state — `{ user: {...} }`
+   * for the "user" slice, the whole state for the `persist()` blob — and returns it migrated.
+   *
+   * @example
+   * version: 3,
+   * migrate: {
+   *   2: (state) => state,
+   *   3: (state) => {
+   *     if (state.user) {
+   *       state.user.preferences = state.user.prefs;
+   *       delete state.user.prefs;
+   *     }
+   *     return state;
+   *   },
+   * }
+   */
+  migrate?: Record<number, (state: any) => any>;
+  /**
+   * What to do with a slice whose migration throws. The store falls back to
+   * `initialState` for it either way.
+   * - `'quarantine'` moves the stored value to a `persisted_quarantine_<root>` key for inspection
+   * - `'discard'` deletes it
+   *  @default 'quarantine'
+   */
+  onMigrationError?: 'discard' | 'quarantine';
+  /**
+   * Validators for persisted slices, keyed by slice root path. They run after
+   * migrations, before persisted data is merged into the store; an invalid
+   * slice is skipped (the store keeps its `initialState` value) and a
+   * `validationFailed` event is reported to `monitorAPI.onEvent()` listeners.
+   *
+   * @example
+   * import { fromSafeParse } from 'scope-state';
+   * validate: {
+   *   user: (value) => typeof value?.name === 'string',
+   *   settings: fromSafeParse(SettingsSchema), // zod, valibot...
+   * }
+   */
+  validate?: Record<string, SliceValidator>;
+  /**
+   * Keep the store in sync with other open tabs. Slices persisted in one tab
+   * are applied in the others (through the proxy, so components update),
+   * respecting `paths` and `blacklist`. Uses `BroadcastChannel`, or `storage`
+   * events where it isn't available.
+   *  @default false
+   */
+  syncTabs?: boolean;
+  /**
+   * Time-to-live per root path, in milliseconds. Each persisted slice stores
+   * its write time; slices older than their TTL are removed on load and the
+   * store keeps their initial value. Use `persistenceAPI.getRemainingTTL(root)`
+   * to check how long a slice has left.
+   *  @default undefined @example { catalog: 86_400_000 }
+   */
+  ttl?: Record<string, number>;
+  /**
+   * Called when a slice can't be written, after retries and eviction. Without
+   * it, failures are logged to the console. The failed roots and the last
+   * error are also reported by `persistenceAPI.getBatchStatus()`.
+   *  @example (error, { root, size }) => reportError(error, { root, size })
+   */
+  onError?: (error: unknown, info: PersistenceErrorInfo) => void;
+  /**
+   * How many times a failed write to an asynchronous adapter is retried, with
+   * exponential backoff starting at `retryDelay`.
+   *  @default 3
+   */
+  maxRetries?: number;
+  /**
+   * Delay in ms before the first retry of a failed asynchronous write. Doubles
+   * with each attempt.
+   *  @default 500
+   */
+  retryDelay?: number;
+  /**
+   * Roots that may be removed from storage when it is full, lowest priority
+   * first. A write that exceeds the quota evicts roots listed before it (or
+   * any listed root, for roots not in the list) until it fits. Evicted slices
+   * stay in memory and are persisted again on their next change.
+   *  @default undefined @example ['catalog', 'searchHistory']
+   */
+  evict?: string[];
+  /**
+   * Persist pending changes right away when the app goes away, instead of
+   * waiting for `batchDelay`: on `visibilitychange` (hidden) and `pagehide`
+   * in browsers, on `beforeExit` in Node, and whenever `lifecycle` asks.
+   *  @default true
+   */
+  autoFlush?: boolean;
+  /**
+   * Hook for platforms without page events, e.g. React Native. Receives a
+   * `flush` function to call when the app is backgrounded, and may return an
+   * unsubscribe function (called by `store.destroy()`).
+   *  @example
+   *  flush => {
+   *    const subscription = AppState.addEventListener('change', state => {
+   *      if (state !== 'active') flush();
+   *    });
+   *    return () => subscription.remove();
+   *  }
+   */
+  lifecycle?: (flush: () => void) => (() => void) | void;
+}
+
+/**
+ * Details passed to `persistence.onError`.
+ */
+export interface PersistenceErrorInfo {
+  /** The root path that failed to persist */
+  root: string;
+  /** Size of the serialized slice, in characters */
+  size: number;
+}
+
+/**
+ * Outcome of a slice validation. A successful result may carry `data` to use
+ * instead of the stored value (e.g. with schema defaults applied).
+ */
+export type ValidationResult<T = unknown> =
+  | { success: true; data?: T }
+  | { success: false; error?: unknown };
+
+/**
+ * Validates a persisted slice before it is merged into the store.
+ */
+export type SliceValidator<T = any> = (value: unknown) => boolean | ValidationResult<T>;
+
+/**
+ * Any schema with a zod-style `safeParse()` method.
+ */
+export interface SafeParseSchema<T = unknown> {
+  safeParse(value: unknown): { success: true; data: T } | { success: false; error: unknown };
 }
 
 export interface ScopeConfig<T extends Record<string, any> = Record<string, any>> {
@@ -349,6 +565,146 @@ export interface ScopeConfig<T extends Record<string, any> = Record<string, any>
   persistence?: Partial<PersistenceConfig>;
 }
 
+/**
+ * Configuration for `createStore()`. Proxy and monitoring settings are shared
+ * by all stores — set them with `configure()`.
+ */
+export type CreateStoreConfig<T extends Record<string, any> = Record<string, any>> =
+  Omit<ScopeConfig<T>, 'proxy' | 'monitoring'>;
+
+/**
+ * An isolated store instance, created with `createStore()`.
+ */
+export interface ScopeStore<T extends Record<string, any> = Record<string, any>> {
+  /** The store proxy */
+  readonly $: StoreType<T>;
+  /** Subscribe to changes at a path of this store (e.g. `'user.name'`) */
+  subscribe(path: string, listener: Listener): () => void;
+  /** Receive a change record for every mutation made to this store */
+  onChange(listener: ChangeListener): () => void;
+  /** Persistence controls for this store (same API as `persistenceAPI`) */
+  readonly persistence: PersistenceAPI;
+  /** Monitoring and proxy cache statistics of this store */
+  getStats(): {
+    monitoring: MonitoringStats;
+    proxyCache: ProxyCacheStats & { hitRatio: number; estimatedCacheSize: number };
+    listenerCount: number;
+    activePaths: string[];
+  };
+  /** Remove every listener and cancel pending persistence writes */
+  destroy(): void;
+}
+
+/**
+ * A cached value derived from the store, created with `computed()`.
+ */
+export interface Computed<T> {
+  /** The current value. Recomputed lazily after a dependency changes. */
+  readonly value: T;
+  /** The store paths the value currently depends on. */
+  readonly paths: string[];
+  /** Unsubscribe from all dependencies. The value is recomputed on next read. */
+  dispose(): void;
+}
+
+/**
+ * Options for `watch()`.
+ */
+export interface WatchOptions<T> {
+  /** Run the callback immediately with the current value. @default false */
+  immediate?: boolean;
+  /** Custom comparison used to decide whether the selected value changed. @default deep equality */
+  equals?: (a: T, b: T) => boolean;
+}
+
+/**
+ * Options for `useScope()`.
+ */
+export interface UseScopeOptions<T> {
+  /**
+   * Compare the newly selected value with the previous one when a tracked path
+   * changes; the component only re-renders when they differ. Objects are
+   * compared as read-only snapshots.
+   *  @default Object.is @example { equals: shallowEqual }
+   */
+  equals?: (a: T, b: T) => boolean;
+}
+
+/**
+ * The kind of mutation described by a ChangeRecord.
+ */
+export type ChangeOperation = 'set' | 'delete' | 'splice' | 'push' | 'reset';
+
+/**
+ * Describes a single mutation made through a store proxy.
+ *
+ * - `set` / `delete`: `path` is the property that changed.
+ * - `splice` / `push`: `path` is the array path plus the start index;
+ *   `oldValue` holds the removed items and `newValue` the inserted items.
+ *   Changing an array's `length` is reported as a `splice` (appended slots
+ *   are `undefined`).
+ * - `reset`: `path` is the object or array that was reset to its initial state.
+ *
+ * Values are plain copies taken at the time of the change.
+ */
+export interface ChangeRecord {
+  path: string[];
+  op: ChangeOperation;
+  oldValue: unknown;
+  newValue: unknown;
+  /** `set` only: whether the property or key existed before the change, so an
+   *  added key can be told apart from one that held `undefined` */
+  hadKey?: boolean;
+  timestamp: number;
+}
+
+export type ChangeListener = (change: ChangeRecord) => void;
+
+/**
+ * Options for `createHistory()`.
+ */
+export interface HistoryOptions {
+  /** Only record changes at or below these paths. Records everything when empty.
+   *  @default [] @example ['document', 'canvas.layers']
+   */
+  paths?: string[];
+  /** Maximum number of undo steps to keep.
+   *  @default 100
+   */
+  limit?: number;
+  /** Merge changes made within this many milliseconds of the previous step into it (0 disables).
+   *  @default 0
+   */
+  coalesceWindow?: number;
+}
+
+/**
+ * Undo/redo controller returned by `createHistory()`.
+ */
+export interface History {
+  /** Revert the most recent step. Returns false if there was nothing to undo. */
+  undo(): boolean;
+  /** Re-apply the most recently undone step. Returns false if there was nothing to redo. */
+  redo(): boolean;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  /** Drop all undo and redo steps. */
+  clear(): void;
+  /** Listen for changes to the undo/redo stacks. */
+  subscribe(listener: () => void): () => void;
+  /** Stop recording changes. */
+  dispose(): void;
+}
+
+/**
+ * A JSON Patch (RFC 6902) operation. `path` is a JSON Pointer (RFC 6901).
+ */
+export interface JsonPatchOperation {
+  op: 'add' | 'replace' | 'remove';
+  path: string;
+  value?: unknown;
+}
+
 // Utility types
 export type Listener = () => void;
 export type PathListeners = Map<string, Set<Listener>>;
@@ -387,6 +743,35 @@ export interface ProxyCacheStats {
   activeCachedProxies: number;
 }
 
+/**
+ * Event reported to `monitorAPI.onEvent()` listeners.
+ */
+export type MonitoringEvent =
+  | {
+    type: 'validationFailed';
+    /** Persistence namespace of the store ('' for the default store) */
+    namespace: string;
+    /** Root path of the slice ('' for the full-state blob) */
+    path: string;
+    error: unknown;
+    timestamp: number;
+  }
+  | {
+    type: 'migrationFailed';
+    namespace: string;
+    path: string;
+    /** Version the slice was stored with */
+    fromVersion: number;
+    error: unknown;
+    timestamp: number;
+  }
+  | {
+    type: 'watchError';
+    /** Error thrown by a `watch()` callback */
+    error: unknown;
+    timestamp: number;
+  };
+
 export interface PathUsageStats {
   accessedPaths: Set<string>;
   modifiedPaths: Set<string>;